@@ -10,9 +10,11 @@ import { AppLayout, PublicLayout } from "@/components/layout-shell";
 import StartPage from "@/pages/public-start";
 import WizardPage from "@/pages/public-wizard";
 import StatusPage from "@/pages/public-status";
+import ProgramPage from "@/pages/public-program";
 import ReviewerLogin from "@/pages/reviewer-login";
 import ReviewerDashboard from "@/pages/reviewer-dashboard";
 import ReviewerPrograms from "@/pages/reviewer-programs";
+import ReviewerAmiTables from "@/pages/reviewer-ami-tables";
 
 function Router() {
   return (
@@ -24,6 +26,9 @@ function Router() {
       <Route path="/start">
         <PublicLayout><StartPage /></PublicLayout>
       </Route>
+      <Route path="/programs/:slug">
+        <PublicLayout><ProgramPage /></PublicLayout>
+      </Route>
       <Route path="/apply/:token">
         <PublicLayout><WizardPage /></PublicLayout>
       </Route>
@@ -40,6 +45,9 @@ function Router() {
       <Route path="/app/programs">
         <AppLayout><ReviewerPrograms /></AppLayout>
       </Route>
+      <Route path="/app/ami-tables">
+        <AppLayout><ReviewerAmiTables /></AppLayout>
+      </Route>
 
       {/* Fallback */}
       <Route component={NotFound} />
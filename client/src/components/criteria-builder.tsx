@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { criterionTypes, eligibilityCriterionSchema, incomeSourceTypes, type CriterionType, type EligibilityCriterion } from "@shared/schema";
+import { criterionTypeLabels, describeCriterion } from "@shared/criteria";
+import { incomeSourceLabels, type IncomeSourceType } from "@shared/income";
+
+interface CriteriaBuilderProps {
+  value: EligibilityCriterion[];
+  onChange: (value: EligibilityCriterion[]) => void;
+  disabled?: boolean;
+}
+
+function toOptionalNumber(value: string) {
+  return value.trim() === "" ? null : Number(value);
+}
+
+export function CriteriaBuilder({ value, onChange, disabled = false }: CriteriaBuilderProps) {
+  const [type, setType] = useState<CriterionType>("StateEquals");
+  const [state, setState] = useState("");
+  const [min, setMin] = useState("");
+  const [max, setMax] = useState("");
+  const [sourceType, setSourceType] = useState<IncomeSourceType>("Wages");
+  const [age, setAge] = useState("62");
+  const [error, setError] = useState("");
+
+  const buildCriterion = () => {
+    switch (type) {
+      case "StateEquals":
+        return { type, state: state.trim().toUpperCase() };
+      case "HouseholdSizeRange":
+        return { type, min: toOptionalNumber(min), max: toOptionalNumber(max) };
+      case "IncomeSourceExcluded":
+        return { type, sourceType };
+      case "MinimumAge":
+        return { type, age: Number(age) };
+    }
+  };
+
+  const addCriterion = () => {
+    const parsed = eligibilityCriterionSchema.safeParse(buildCriterion());
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      return;
+    }
+    const description = describeCriterion(parsed.data);
+    if (value.some((c) => describeCriterion(c) === description)) {
+      setError("Condition already added");
+      return;
+    }
+    onChange([...value, parsed.data]);
+    setState("");
+    setMin("");
+    setMax("");
+    setError("");
+  };
+
+  const removeCriterion = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <ul className="border rounded-md divide-y text-sm">
+          {value.map((criterion, index) => (
+            <li key={describeCriterion(criterion)} className="flex items-center justify-between px-3 py-2">
+              <span>{describeCriterion(criterion)}</span>
+              {!disabled && (
+                <button type="button" onClick={() => removeCriterion(index)} className="hover:bg-muted rounded-full p-1">
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Select value={type} onValueChange={(v) => { setType(v as CriterionType); setError(""); }} disabled={disabled}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {criterionTypes.map((t) => (
+              <SelectItem key={t} value={t}>{criterionTypeLabels[t]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {type === "StateEquals" && (
+          <Input className="w-24" placeholder="CA" maxLength={2} value={state} onChange={(e) => setState(e.target.value)} disabled={disabled} />
+        )}
+        {type === "HouseholdSizeRange" && (
+          <>
+            <Input className="w-24" type="number" min={1} placeholder="Min" value={min} onChange={(e) => setMin(e.target.value)} disabled={disabled} />
+            <Input className="w-24" type="number" min={1} placeholder="Max" value={max} onChange={(e) => setMax(e.target.value)} disabled={disabled} />
+          </>
+        )}
+        {type === "IncomeSourceExcluded" && (
+          <Select value={sourceType} onValueChange={(v) => setSourceType(v as IncomeSourceType)} disabled={disabled}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {incomeSourceTypes.map((s) => (
+                <SelectItem key={s} value={s}>{incomeSourceLabels[s]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {type === "MinimumAge" && (
+          <Input className="w-24" type="number" min={1} value={age} onChange={(e) => setAge(e.target.value)} disabled={disabled} />
+        )}
+
+        <Button type="button" variant="outline" onClick={addCriterion} disabled={disabled}>
+          Add
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <p className="text-xs text-muted-foreground">
+        Applicants must meet every condition. Leave empty for no additional criteria.
+      </p>
+    </div>
+  );
+}
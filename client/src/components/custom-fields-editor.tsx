@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useProgram, useUpdateProgram } from "@/hooks/use-programs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, ArrowUp, ArrowDown, X, Plus } from "lucide-react";
+import { customFieldSchema, customFieldTypes, type CustomField, type CustomFieldType } from "@shared/schema";
+import { parseCustomFields, customFieldKey } from "@shared/custom-fields";
+
+export function CustomFieldsEditor({ programId }: { programId: number }) {
+  const { data: program } = useProgram(programId);
+  const { mutate: updateProgram, isPending } = useUpdateProgram();
+
+  const [fields, setFields] = useState<CustomField[]>(() => parseCustomFields(program?.customFields));
+  const [label, setLabel] = useState("");
+  const [type, setType] = useState<CustomFieldType>("Text");
+  const [required, setRequired] = useState(false);
+  const [options, setOptions] = useState("");
+  const [helpText, setHelpText] = useState("");
+  const [error, setError] = useState("");
+
+  const addField = () => {
+    const parsed = customFieldSchema.safeParse({
+      key: customFieldKey(label, fields.map((f) => f.key)),
+      label: label.trim(),
+      type,
+      required,
+      options: type === "Select" ? options.split(",").map((o) => o.trim()).filter(Boolean) : [],
+      helpText: helpText.trim() || undefined,
+    });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      return;
+    }
+    setFields([...fields, parsed.data]);
+    setLabel("");
+    setRequired(false);
+    setOptions("");
+    setHelpText("");
+    setError("");
+  };
+
+  const moveField = (index: number, offset: number) => {
+    const next = [...fields];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setFields(next);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="font-semibold">Additional Questions</h3>
+        <p className="text-sm text-muted-foreground">
+          Extra fields applicants answer in an "Additional Questions" step of the application. Removing a field hides
+          its answers from reviewers and exports.
+        </p>
+      </div>
+
+      {fields.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No custom fields yet.</p>
+      ) : (
+        <ul className="border rounded-lg divide-y">
+          {fields.map((field, index) => (
+            <li key={field.key} className="flex items-start justify-between gap-2 px-3 py-2 text-sm">
+              <div>
+                <div className="font-medium flex items-center gap-2">
+                  {field.label}
+                  <Badge variant="secondary">{field.type}</Badge>
+                  {field.required && <Badge variant="outline">Required</Badge>}
+                </div>
+                {field.options.length > 0 && <div className="text-xs text-muted-foreground">Options: {field.options.join(", ")}</div>}
+                {field.helpText && <div className="text-xs text-muted-foreground">{field.helpText}</div>}
+              </div>
+              <div className="flex gap-1">
+                <Button type="button" variant="ghost" size="icon" className="h-7 w-7" disabled={index === 0} onClick={() => moveField(index, -1)}>
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" className="h-7 w-7" disabled={index === fields.length - 1} onClick={() => moveField(index, 1)}>
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => setFields(fields.filter((_, i) => i !== index))}>
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="border rounded-lg p-4 space-y-3 bg-muted/20">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="grid gap-2">
+            <Label>Label</Label>
+            <Input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="e.g. Utility account number" />
+          </div>
+          <div className="grid gap-2">
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(v) => setType(v as CustomFieldType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {customFieldTypes.map((t) => <SelectItem key={t} value={t}>{t}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        {type === "Select" && (
+          <div className="grid gap-2">
+            <Label>Options</Label>
+            <Input value={options} onChange={(e) => setOptions(e.target.value)} placeholder="Natural gas, Electric, Oil, Propane" />
+            <p className="text-xs text-muted-foreground">Separate options with commas.</p>
+          </div>
+        )}
+        <div className="grid gap-2">
+          <Label>Help Text (Optional)</Label>
+          <Input value={helpText} onChange={(e) => setHelpText(e.target.value)} placeholder="Shown below the field" />
+        </div>
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={required} onCheckedChange={(checked) => setRequired(checked === true)} />
+            Required
+          </label>
+          <Button type="button" variant="outline" size="sm" onClick={addField}>
+            <Plus className="h-4 w-4 mr-1" /> Add Field
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      <Button onClick={() => updateProgram({ id: programId, data: { customFields: JSON.stringify(fields) } })} disabled={isPending}>
+        {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Save Questions
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useProgram, useUpdateProgram, useProgramCapacities } from "@/hooks/use-programs";
+import { useApplications, usePromoteApplication } from "@/hooks/use-applications";
+import { useUser } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, ArrowUpCircle } from "lucide-react";
+import { format } from "date-fns";
+import type { ProgramCapacity } from "@shared/schema";
+
+function formatDollars(cents: number) {
+  return `$${(cents / 100).toLocaleString()}`;
+}
+
+function toCentsOrNull(dollars: string) {
+  return dollars.trim() === "" ? null : Math.round(Number(dollars) * 100);
+}
+
+export function CapacitySummary({ capacity }: { capacity: ProgramCapacity }) {
+  if (capacity.maxApprovals === null && capacity.budgetCents === null) {
+    return <span className="text-muted-foreground">Unlimited</span>;
+  }
+  return (
+    <span className={capacity.exhausted ? "text-red-600" : undefined}>
+      {capacity.remainingApprovals !== null && `${capacity.remainingApprovals} of ${capacity.maxApprovals} approvals left`}
+      {capacity.remainingApprovals !== null && capacity.remainingBudgetCents !== null && " · "}
+      {capacity.remainingBudgetCents !== null && `${formatDollars(capacity.remainingBudgetCents)} left`}
+    </span>
+  );
+}
+
+export function FundingPanel({ programId }: { programId: number }) {
+  const { data: program } = useProgram(programId);
+  const { data: capacities } = useProgramCapacities();
+  const { data: user } = useUser();
+  const { data: waitlisted, isLoading: loadingWaitlist } = useApplications({ status: "Waitlisted", programId: String(programId) });
+  const { mutate: updateProgram, isPending: isSaving } = useUpdateProgram();
+  const { mutate: promote, isPending: isPromoting } = usePromoteApplication();
+  const { toast } = useToast();
+
+  const [maxApprovals, setMaxApprovals] = useState(program?.maxApprovals?.toString() ?? "");
+  const [budget, setBudget] = useState(program?.budgetCents != null ? (program.budgetCents / 100).toString() : "");
+  const [award, setAward] = useState(program?.awardCents != null ? (program.awardCents / 100).toString() : "");
+
+  const capacity = capacities?.find((c) => c.programId === programId);
+  // First come, first served: only the earliest submission can be promoted
+  const queue = [...(waitlisted ?? [])].sort(
+    (a, b) => new Date(a.submittedAt!).getTime() - new Date(b.submittedAt!).getTime()
+  );
+
+  const handleSave = () => {
+    const updates = {
+      maxApprovals: maxApprovals.trim() === "" ? null : parseInt(maxApprovals),
+      budgetCents: toCentsOrNull(budget),
+      awardCents: toCentsOrNull(award),
+    };
+    if (Object.values(updates).some((v) => v !== null && (isNaN(v) || v < 0))) {
+      toast({ title: "Invalid amount", description: "Please enter positive numbers or leave a field empty", variant: "destructive" });
+      return;
+    }
+    if (updates.budgetCents !== null && !updates.awardCents) {
+      toast({ title: "Award amount required", description: "A budget is tracked in awards per approved household", variant: "destructive" });
+      return;
+    }
+    updateProgram({ id: programId, data: updates });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="font-semibold">Funding Caps</h3>
+        <p className="text-sm text-muted-foreground">
+          Approved households and eligible applications awaiting review count toward the caps. Once either cap is reached,
+          reviewers can't approve more households and new eligible applications are waitlisted in submission order. Leave a field empty for no cap.
+        </p>
+      </div>
+
+      {capacity && (
+        <div className="grid grid-cols-3 gap-4 text-sm border rounded-lg p-4 bg-muted/20">
+          <div>
+            <div className="text-muted-foreground">Approved</div>
+            <div className="text-lg font-semibold">
+              {capacity.approvedCount}{capacity.maxApprovals !== null && <span className="text-muted-foreground"> / {capacity.maxApprovals}</span>}
+            </div>
+            {capacity.pendingCount > 0 && (
+              <div className="text-xs text-muted-foreground">+{capacity.pendingCount} eligible awaiting review</div>
+            )}
+          </div>
+          <div>
+            <div className="text-muted-foreground">Committed</div>
+            <div className="text-lg font-semibold font-mono">
+              {formatDollars(capacity.committedCents)}
+              {capacity.budgetCents !== null && <span className="text-muted-foreground"> / {formatDollars(capacity.budgetCents)}</span>}
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Status</div>
+            <div className="mt-1">
+              {capacity.exhausted
+                ? <Badge variant="outline" className="bg-red-50 text-red-700">Fully committed</Badge>
+                : <Badge variant="outline" className="bg-green-50 text-green-700">Accepting approvals</Badge>}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-4 items-end">
+        <div className="grid gap-2">
+          <Label>Max Approvals</Label>
+          <Input type="number" min={0} value={maxApprovals} onChange={(e) => setMaxApprovals(e.target.value)} placeholder="No cap" />
+        </div>
+        <div className="grid gap-2">
+          <Label>Total Budget ($)</Label>
+          <Input type="number" min={0} value={budget} onChange={(e) => setBudget(e.target.value)} placeholder="No cap" />
+        </div>
+        <div className="grid gap-2">
+          <Label>Award per Household ($)</Label>
+          <Input type="number" min={0} value={award} onChange={(e) => setAward(e.target.value)} placeholder="None" />
+        </div>
+      </div>
+      <Button size="sm" onClick={handleSave} disabled={isSaving}>
+        {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Save Caps
+      </Button>
+
+      <div className="space-y-2">
+        <h3 className="font-semibold">Waitlist ({queue.length})</h3>
+        {loadingWaitlist ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : queue.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No waitlisted applications.</p>
+        ) : (
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead className="w-[50px]">#</TableHead>
+                  <TableHead>Applicant</TableHead>
+                  <TableHead>Submitted</TableHead>
+                  <TableHead className="text-right">Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {queue.map((app, index) => (
+                  <TableRow key={app.id}>
+                    <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{app.applicantName}</div>
+                      <div className="text-xs text-muted-foreground">#{app.id}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{format(new Date(app.submittedAt!), "MMM d, yyyy h:mm a")}</TableCell>
+                    <TableCell className="text-right">
+                      {index === 0 && user?.role === "Admin" && (
+                        <Button size="sm" variant="outline" onClick={() => promote(app.id)} disabled={isPromoting || capacity?.exhausted}>
+                          <ArrowUpCircle className="h-4 w-4 mr-1" /> Promote
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        {queue.length > 0 && user?.role !== "Admin" && (
+          <p className="text-xs text-muted-foreground">Only admins can promote waitlisted applications.</p>
+        )}
+      </div>
+    </div>
+  );
+}
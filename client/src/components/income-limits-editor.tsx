@@ -1,5 +1,7 @@
 import { useState } from "react";
-import { Loader2, Trash2, Plus } from "lucide-react";
+import type { z } from "zod";
+import { Loader2, Trash2, Plus, Lock, Upload, Download, GitCompare } from "lucide-react";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -20,15 +22,597 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { useIncomeLimits, useCreateIncomeLimit, useUpdateIncomeLimit, useDeleteIncomeLimit } from "@/hooks/use-programs";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  useIncomeLimits, useCreateIncomeLimit, useUpdateIncomeLimit, useDeleteIncomeLimit, useProgram, useUpdateProgram,
+  useLimitVersions, useCreateLimitVersion, useUpdateLimitVersion, usePublishLimitVersion, useDeleteLimitVersion
+} from "@/hooks/use-programs";
+import { useAmiTables, useAmiTable } from "@/hooks/use-ami-tables";
 import { useToast } from "@/hooks/use-toast";
+import { LimitTableImport } from "@/components/limit-table-import";
+import { LimitVersionComparison } from "@/components/limit-version-comparison";
+import { buildUrl, api } from "@shared/routes";
+import { limitBases, extrapolationPolicies, type ExtrapolationPolicy, type LimitBasis, type Program, type IncomeTier, type IncomeLimitVersion } from "@shared/schema";
+import { lookupLimit, parseIncomeTiers, type LimitRow } from "@shared/limits";
 
 interface IncomeLimitsEditorProps {
   programId: number;
 }
 
+// How many household sizes past the configured table to preview
+const DERIVED_PREVIEW_COUNT = 3;
+
+const extrapolationPolicyLabels: Record<typeof extrapolationPolicies[number], string> = {
+  None: "No extrapolation (needs review)",
+  PercentOfFourPerson: "% of 4-person limit per member",
+  FixedIncrement: "Fixed amount per member",
+};
+
+// Rows the program's extrapolation policy would derive beyond the configured table
+function getDerivedRows(rows: LimitRow[], program: Program): LimitRow[] {
+  if (rows.length === 0) return [];
+  const maxSize = Math.max(...rows.map((r) => r.householdSize));
+  const derived: LimitRow[] = [];
+  for (let size = maxSize + 1; size <= maxSize + DERIVED_PREVIEW_COUNT; size++) {
+    const lookup = lookupLimit(rows, size, program);
+    if (lookup) derived.push({ householdSize: size, limitCents: lookup.limitCents });
+  }
+  return derived;
+}
+
 export function IncomeLimitsEditor({ programId }: IncomeLimitsEditorProps) {
-  const { data: limits, isLoading } = useIncomeLimits(programId);
+  const { data: program, isLoading } = useProgram(programId);
+
+  if (isLoading || !program) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <LimitBasisSettings key={program.id} program={program} />
+      <ExtrapolationSettings key={`extrapolation-${program.id}`} program={program} />
+      <IncomeTiersSettings key={`tiers-${program.id}`} program={program} />
+      {program.limitBasis === "AMI" ? (
+        <AmiLimitsPreview program={program} />
+      ) : (
+        <FixedLimitVersions program={program} />
+      )}
+    </div>
+  );
+}
+
+function LimitBasisSettings({ program }: { program: Program }) {
+  const { data: amiTables } = useAmiTables();
+  const { mutate: updateProgram, isPending } = useUpdateProgram();
+  const { toast } = useToast();
+
+  const [limitBasis, setLimitBasis] = useState<LimitBasis>(program.limitBasis);
+  const [amiTableId, setAmiTableId] = useState(program.amiTableId?.toString() || "");
+  const [amiPercent, setAmiPercent] = useState(program.amiPercent?.toString() || "80");
+
+  const handleSave = () => {
+    if (limitBasis === "AMI") {
+      const percent = parseInt(amiPercent);
+      if (!amiTableId) {
+        toast({ title: "Select an AMI table", variant: "destructive" });
+        return;
+      }
+      if (isNaN(percent) || percent < 1) {
+        toast({ title: "Invalid percentage", description: "Please enter a percentage of AMI", variant: "destructive" });
+        return;
+      }
+      updateProgram({ id: program.id, data: { limitBasis, amiTableId: Number(amiTableId), amiPercent: percent } });
+    } else {
+      updateProgram({ id: program.id, data: { limitBasis, amiTableId: null, amiPercent: null } });
+    }
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4 bg-muted/20">
+      <div className="grid grid-cols-3 gap-4 items-end">
+        <div className="grid gap-2">
+          <Label>Limit Basis</Label>
+          <Select value={limitBasis} onValueChange={(v) => setLimitBasis(v as LimitBasis)}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {limitBases.map((basis) => (
+                <SelectItem key={basis} value={basis}>
+                  {basis === "AMI" ? "% of Area Median Income" : "Fixed amounts"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {limitBasis === "AMI" && (
+          <>
+            <div className="grid gap-2">
+              <Label>AMI Table</Label>
+              <Select value={amiTableId} onValueChange={setAmiTableId}>
+                <SelectTrigger className="h-9">
+                  <SelectValue placeholder="Choose table..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {amiTables?.map((table) => (
+                    <SelectItem key={table.id} value={table.id.toString()}>
+                      {table.name} ({table.datasetVersion})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Threshold (% AMI)</Label>
+              <Input
+                type="number"
+                min="1"
+                value={amiPercent}
+                onChange={(e) => setAmiPercent(e.target.value)}
+                className="h-9"
+              />
+            </div>
+          </>
+        )}
+      </div>
+      <Button size="sm" onClick={handleSave} disabled={isPending}>
+        {isPending && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+        Save Limit Basis
+      </Button>
+    </div>
+  );
+}
+
+function ExtrapolationSettings({ program }: { program: Program }) {
+  const { mutate: updateProgram, isPending } = useUpdateProgram();
+  const { toast } = useToast();
+
+  const [policy, setPolicy] = useState<ExtrapolationPolicy>(program.extrapolationPolicy);
+  const [percent, setPercent] = useState(program.extrapolationPercent?.toString() || "8");
+  const [increment, setIncrement] = useState(
+    program.extrapolationIncrementCents !== null ? (program.extrapolationIncrementCents / 100).toString() : ""
+  );
+
+  const handleSave = () => {
+    const updates: z.infer<typeof api.programs.update.input> = { extrapolationPolicy: policy };
+    if (policy === "PercentOfFourPerson") {
+      const value = parseInt(percent);
+      if (isNaN(value) || value < 0) {
+        toast({ title: "Invalid percentage", description: "Please enter a valid percentage", variant: "destructive" });
+        return;
+      }
+      updates.extrapolationPercent = value;
+    } else if (policy === "FixedIncrement") {
+      const dollars = parseFloat(increment);
+      if (isNaN(dollars) || dollars < 0) {
+        toast({ title: "Invalid amount", description: "Please enter a valid dollar amount", variant: "destructive" });
+        return;
+      }
+      updates.extrapolationIncrementCents = Math.round(dollars * 100);
+    }
+    updateProgram({ id: program.id, data: updates });
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4 bg-muted/20">
+      <div className="grid grid-cols-2 gap-4 items-end">
+        <div className="grid gap-2">
+          <Label>Larger Households</Label>
+          <Select value={policy} onValueChange={(v) => setPolicy(v as ExtrapolationPolicy)}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {extrapolationPolicies.map((p) => (
+                <SelectItem key={p} value={p}>{extrapolationPolicyLabels[p]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {policy === "PercentOfFourPerson" && (
+          <div className="grid gap-2">
+            <Label>% of 4-Person Limit</Label>
+            <Input type="number" min="0" value={percent} onChange={(e) => setPercent(e.target.value)} className="h-9" />
+          </div>
+        )}
+        {policy === "FixedIncrement" && (
+          <div className="grid gap-2">
+            <Label>Amount per Member ($)</Label>
+            <Input type="number" step="0.01" min="0" value={increment} onChange={(e) => setIncrement(e.target.value)} className="h-9" />
+          </div>
+        )}
+      </div>
+      <Button size="sm" onClick={handleSave} disabled={isPending}>
+        {isPending && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+        Save Extrapolation
+      </Button>
+    </div>
+  );
+}
+
+function IncomeTiersSettings({ program }: { program: Program }) {
+  const { mutate: updateProgram, isPending } = useUpdateProgram();
+  const { toast } = useToast();
+
+  const [tiers, setTiers] = useState<IncomeTier[]>(parseIncomeTiers(program.incomeTiers));
+  const [newTier, setNewTier] = useState({ name: "", percentOfLimit: "" });
+
+  const handleAddTier = () => {
+    const percentOfLimit = parseInt(newTier.percentOfLimit);
+    if (!newTier.name.trim()) {
+      toast({ title: "Tier name required", variant: "destructive" });
+      return;
+    }
+    if (isNaN(percentOfLimit) || percentOfLimit < 1) {
+      toast({ title: "Invalid percentage", description: "Please enter a percentage of the limit", variant: "destructive" });
+      return;
+    }
+    if (tiers.some((t) => t.name === newTier.name.trim())) {
+      toast({ title: "Tier already exists", variant: "destructive" });
+      return;
+    }
+    setTiers([...tiers, { name: newTier.name.trim(), percentOfLimit }].sort((a, b) => a.percentOfLimit - b.percentOfLimit));
+    setNewTier({ name: "", percentOfLimit: "" });
+  };
+
+  const handleSave = () => {
+    updateProgram({ id: program.id, data: { incomeTiers: JSON.stringify(tiers) } });
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4 bg-muted/20">
+      <div>
+        <Label>Income Tiers</Label>
+        <p className="text-xs text-muted-foreground mt-1">
+          Applicants are placed in the lowest tier their income falls under. Leave empty to use the limit alone.
+        </p>
+      </div>
+      <div className="space-y-2">
+        {tiers.map((tier) => (
+          <div key={tier.name} className="flex items-center justify-between text-sm bg-background border rounded-md px-3 py-2">
+            <span className="font-medium">{tier.name}</span>
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground">≤ {tier.percentOfLimit}% of limit</span>
+              <Button variant="ghost" size="sm" onClick={() => setTiers(tiers.filter((t) => t.name !== tier.name))}>
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <Input
+            placeholder="Tier name"
+            value={newTier.name}
+            onChange={(e) => setNewTier({ ...newTier, name: e.target.value })}
+            className="h-8"
+          />
+          <Input
+            type="number"
+            placeholder="% of limit"
+            value={newTier.percentOfLimit}
+            onChange={(e) => setNewTier({ ...newTier, percentOfLimit: e.target.value })}
+            className="h-8 w-32"
+          />
+          <Button size="sm" variant="outline" onClick={handleAddTier}>
+            <Plus className="h-4 w-4 mr-1" /> Add
+          </Button>
+        </div>
+      </div>
+      <Button size="sm" onClick={handleSave} disabled={isPending}>
+        {isPending && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+        Save Tiers
+      </Button>
+    </div>
+  );
+}
+
+function AmiLimitsPreview({ program }: { program: Program }) {
+  const { data: table, isLoading } = useAmiTable(program.amiTableId || 0);
+
+  if (!program.amiTableId || !program.amiPercent) {
+    return <p className="text-sm text-muted-foreground">Select an AMI table and threshold to compute limits.</p>;
+  }
+
+  if (isLoading || !table) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const percent = program.amiPercent;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Limits are {percent}% of the median income for the applicant's area ({table.datasetVersion}).
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Area</TableHead>
+            <TableHead>Household Size</TableHead>
+            <TableHead>Median Income ($)</TableHead>
+            <TableHead>Computed Limit ($)</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {table.areas.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                This AMI table has no areas yet.
+              </TableCell>
+            </TableRow>
+          ) : (
+            table.areas.flatMap((area) => {
+              const rows = area.incomes.map((income) => ({
+                householdSize: income.householdSize,
+                limitCents: Math.round(income.medianIncomeCents * percent / 100),
+              }));
+              return [
+                ...[...area.incomes]
+                  .sort((a, b) => a.householdSize - b.householdSize)
+                  .map((income) => (
+                    <TableRow key={income.id}>
+                      <TableCell className="font-medium">{area.areaName}</TableCell>
+                      <TableCell>{income.householdSize}</TableCell>
+                      <TableCell className="text-muted-foreground">${(income.medianIncomeCents / 100).toLocaleString()}</TableCell>
+                      <TableCell>${(Math.round(income.medianIncomeCents * percent / 100) / 100).toLocaleString()}</TableCell>
+                    </TableRow>
+                  )),
+                ...getDerivedRows(rows, program).map((row) => (
+                  <TableRow key={`${area.id}-derived-${row.householdSize}`} className="italic text-muted-foreground">
+                    <TableCell>{area.areaName}</TableCell>
+                    <TableCell>{row.householdSize}</TableCell>
+                    <TableCell>Derived</TableCell>
+                    <TableCell>${(row.limitCents / 100).toLocaleString()}</TableCell>
+                  </TableRow>
+                )),
+              ];
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function formatVersionDates(version: IncomeLimitVersion) {
+  return `${format(new Date(version.effectiveStart), "MMM d, yyyy")}`
+    + (version.effectiveEnd ? ` - ${format(new Date(version.effectiveEnd), "MMM d, yyyy")}` : " onward");
+}
+
+function FixedLimitVersions({ program }: { program: Program }) {
+  const { data: versions, isLoading } = useLimitVersions(program.id);
+  const { mutate: createVersion, isPending: isCreatingVersion } = useCreateLimitVersion();
+  const { mutate: updateVersion } = useUpdateLimitVersion();
+  const { mutate: publishVersion, isPending: isPublishing } = usePublishLimitVersion();
+  const { mutate: deleteVersion } = useDeleteLimitVersion();
+  const { toast } = useToast();
+
+  const [selectedVersionId, setSelectedVersionId] = useState<number | null>(null);
+  const [publishDialogOpen, setPublishDialogOpen] = useState(false);
+  const [showNewVersion, setShowNewVersion] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [newVersion, setNewVersion] = useState({ label: "", effectiveStart: "", effectiveEnd: "" });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const selected = versions?.find((v) => v.id === selectedVersionId) ?? versions?.[0];
+
+  const handleCreateVersion = () => {
+    if (!newVersion.label.trim() || !newVersion.effectiveStart) {
+      toast({ title: "Label and effective start are required", variant: "destructive" });
+      return;
+    }
+    createVersion({
+      programId: program.id,
+      data: {
+        label: newVersion.label.trim(),
+        effectiveStart: new Date(newVersion.effectiveStart),
+        effectiveEnd: newVersion.effectiveEnd ? new Date(newVersion.effectiveEnd) : null,
+        copyFromVersionId: selected?.id,
+      },
+    }, {
+      onSuccess: (created) => {
+        setSelectedVersionId(created.id);
+        setShowNewVersion(false);
+        setNewVersion({ label: "", effectiveStart: "", effectiveEnd: "" });
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="grid gap-2 flex-1 min-w-[200px]">
+          <Label>Limit Version</Label>
+          <Select
+            value={selected?.id.toString() || ""}
+            onValueChange={(value) => setSelectedVersionId(Number(value))}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue placeholder="No versions yet" />
+            </SelectTrigger>
+            <SelectContent>
+              {versions?.map((version) => (
+                <SelectItem key={version.id} value={version.id.toString()}>
+                  {version.label} ({version.status}) · {formatVersionDates(version)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => { setShowNewVersion(!showNewVersion); setShowImport(false); }}>
+          <Plus className="h-4 w-4 mr-1" /> New Version
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => { setShowImport(!showImport); setShowNewVersion(false); }}>
+          <Upload className="h-4 w-4 mr-1" /> Import
+        </Button>
+        {selected?.status === "Draft" && (
+          <>
+            <Button size="sm" onClick={() => setPublishDialogOpen(true)} disabled={isPublishing}>
+              {isPublishing && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+              Publish
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                deleteVersion({ programId: program.id, versionId: selected.id });
+                setSelectedVersionId(null);
+              }}
+            >
+              <Trash2 className="h-4 w-4 text-red-600" />
+            </Button>
+          </>
+        )}
+      </div>
+
+      {showNewVersion && (
+        <div className="border rounded-lg p-4 space-y-3 bg-muted/20">
+          <div className="grid grid-cols-3 gap-2">
+            <Input
+              placeholder="Label, e.g. 2025-V1"
+              value={newVersion.label}
+              onChange={(e) => setNewVersion({ ...newVersion, label: e.target.value })}
+              className="h-8"
+            />
+            <Input
+              type="date"
+              value={newVersion.effectiveStart}
+              onChange={(e) => setNewVersion({ ...newVersion, effectiveStart: e.target.value })}
+              className="h-8"
+            />
+            <Input
+              type="date"
+              value={newVersion.effectiveEnd}
+              onChange={(e) => setNewVersion({ ...newVersion, effectiveEnd: e.target.value })}
+              className="h-8"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {selected ? `Limits are copied from ${selected.label}.` : "The new version starts empty."} End date is optional.
+          </p>
+          <Button size="sm" onClick={handleCreateVersion} disabled={isCreatingVersion}>
+            {isCreatingVersion && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+            Create Draft
+          </Button>
+        </div>
+      )}
+
+      {showImport && (
+        <LimitTableImport
+          programId={program.id}
+          onImported={(versionId) => {
+            setSelectedVersionId(versionId);
+            setShowImport(false);
+          }}
+        />
+      )}
+
+      {selected ? (
+        <>
+          <div className="flex justify-end gap-2">
+            {versions && versions.length > 1 && (
+              <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setShowCompare(!showCompare)}>
+                <GitCompare className="h-3 w-3 mr-1" /> {showCompare ? "Hide Comparison" : "Compare"}
+              </Button>
+            )}
+            {(["csv", "xlsx"] as const).map((fileType) => (
+              <a key={fileType} href={`${buildUrl(api.limitVersions.export.path, { id: program.id, versionId: selected.id })}?format=${fileType}`} download>
+                <Button size="sm" variant="ghost" className="h-7 text-xs">
+                  <Download className="h-3 w-3 mr-1" /> Export {fileType.toUpperCase()}
+                </Button>
+              </a>
+            ))}
+          </div>
+          {selected.status === "Published" ? (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Lock className="h-4 w-4" />
+              Published {selected.publishedAt && format(new Date(selected.publishedAt), "MMM d, yyyy")} · effective {formatVersionDates(selected)}. Create a new version to make changes.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label>Effective Start</Label>
+                <Input
+                  type="date"
+                  defaultValue={format(new Date(selected.effectiveStart), "yyyy-MM-dd")}
+                  onBlur={(e) => e.target.value && updateVersion({
+                    programId: program.id,
+                    versionId: selected.id,
+                    updates: { effectiveStart: new Date(e.target.value) },
+                  })}
+                  className="h-8"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Effective End (Optional)</Label>
+                <Input
+                  type="date"
+                  defaultValue={selected.effectiveEnd ? format(new Date(selected.effectiveEnd), "yyyy-MM-dd") : ""}
+                  onBlur={(e) => updateVersion({
+                    programId: program.id,
+                    versionId: selected.id,
+                    updates: { effectiveEnd: e.target.value ? new Date(e.target.value) : null },
+                  })}
+                  className="h-8"
+                />
+              </div>
+            </div>
+          )}
+          {showCompare && versions && (
+            <LimitVersionComparison key={selected.id} programId={program.id} versions={versions} candidate={selected} />
+          )}
+          <LimitVersionTable key={selected.id} program={program} version={selected} />
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">Create a limit version to start adding income limits.</p>
+      )}
+
+      <AlertDialog open={publishDialogOpen} onOpenChange={setPublishDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Publish {selected?.label}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Published limits can no longer be edited or deleted. Applications submitted during its effective dates will use them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (selected) publishVersion({ programId: program.id, versionId: selected.id });
+                setPublishDialogOpen(false);
+              }}
+            >
+              Publish
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function LimitVersionTable({ program, version }: { program: Program; version: IncomeLimitVersion }) {
+  const programId = program.id;
+  const readOnly = version.status === "Published";
+  const { data: limits, isLoading } = useIncomeLimits(programId, version.id);
   const { mutate: createLimit, isPending: isCreating } = useCreateIncomeLimit();
   const { mutate: updateLimit, isPending: isUpdating } = useUpdateIncomeLimit();
   const { mutate: deleteLimit } = useDeleteIncomeLimit();
@@ -44,10 +628,10 @@ export function IncomeLimitsEditor({ programId }: IncomeLimitsEditorProps) {
   const [newLimit, setNewLimit] = useState({
     householdSize: "",
     limitCents: "",
-    versionLabel: "2024-V1",
   });
 
   const handleCellClick = (limitId: number, field: string, currentValue: any) => {
+    if (readOnly) return;
     setEditingCell({
       limitId,
       field,
@@ -61,7 +645,7 @@ export function IncomeLimitsEditor({ programId }: IncomeLimitsEditorProps) {
     const limit = limits?.find((l) => l.id === editingCell.limitId);
     if (!limit) return;
 
-    let updates: any = {};
+    const updates: z.infer<typeof api.incomeLimits.update.input> = {};
     if (editingCell.field === "limitCents") {
       const dollars = parseFloat(editingCell.value);
       if (isNaN(dollars) || dollars < 0) {
@@ -78,8 +662,6 @@ export function IncomeLimitsEditor({ programId }: IncomeLimitsEditorProps) {
         return;
       }
       updates.householdSize = size;
-    } else {
-      updates[editingCell.field] = editingCell.value;
     }
 
     updateLimit({
@@ -115,14 +697,14 @@ export function IncomeLimitsEditor({ programId }: IncomeLimitsEditorProps) {
 
     createLimit({
       programId,
+      versionId: version.id,
       data: {
         householdSize,
         limitCents: Math.round(dollars * 100),
-        versionLabel: newLimit.versionLabel,
       },
     }, {
       onSuccess: () => {
-        setNewLimit({ householdSize: "", limitCents: "", versionLabel: "2024-V1" });
+        setNewLimit({ householdSize: "", limitCents: "" });
       },
     });
   };
@@ -157,7 +739,6 @@ export function IncomeLimitsEditor({ programId }: IncomeLimitsEditorProps) {
           <TableRow>
             <TableHead>Household Size</TableHead>
             <TableHead>Income Limit ($)</TableHead>
-            <TableHead>Version</TableHead>
             <TableHead className="text-right">Actions</TableHead>
           </TableRow>
         </TableHeader>
@@ -165,7 +746,7 @@ export function IncomeLimitsEditor({ programId }: IncomeLimitsEditorProps) {
           {sortedLimits.map((limit) => (
             <TableRow key={limit.id}>
               <TableCell
-                className="cursor-pointer hover:bg-muted/50"
+                className={readOnly ? "" : "cursor-pointer hover:bg-muted/50"}
                 onClick={() => handleCellClick(limit.id, "householdSize", limit.householdSize)}
               >
                 {editingCell?.limitId === limit.id && editingCell.field === "householdSize" ? (
@@ -183,7 +764,7 @@ export function IncomeLimitsEditor({ programId }: IncomeLimitsEditorProps) {
                 )}
               </TableCell>
               <TableCell
-                className="cursor-pointer hover:bg-muted/50"
+                className={readOnly ? "" : "cursor-pointer hover:bg-muted/50"}
                 onClick={() => handleCellClick(limit.id, "limitCents", limit.limitCents)}
               >
                 {editingCell?.limitId === limit.id && editingCell.field === "limitCents" ? (
@@ -201,74 +782,60 @@ export function IncomeLimitsEditor({ programId }: IncomeLimitsEditorProps) {
                   `$${(limit.limitCents / 100).toLocaleString()}`
                 )}
               </TableCell>
-              <TableCell
-                className="cursor-pointer hover:bg-muted/50"
-                onClick={() => handleCellClick(limit.id, "versionLabel", limit.versionLabel)}
-              >
-                {editingCell?.limitId === limit.id && editingCell.field === "versionLabel" ? (
-                  <Input
-                    value={editingCell.value}
-                    onChange={(e) => setEditingCell({ ...editingCell, value: e.target.value })}
-                    onBlur={handleCellBlur}
-                    onKeyDown={handleCellKeyDown}
-                    autoFocus
-                    className="h-8"
-                  />
-                ) : (
-                  limit.versionLabel
+              <TableCell className="text-right">
+                {!readOnly && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => confirmDelete(limit.id)}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
                 )}
               </TableCell>
+            </TableRow>
+          ))}
+          {getDerivedRows(sortedLimits, program).map((row) => (
+            <TableRow key={`derived-${row.householdSize}`} className="italic text-muted-foreground">
+              <TableCell>{row.householdSize}</TableCell>
+              <TableCell>${(row.limitCents / 100).toLocaleString()}</TableCell>
+              <TableCell className="text-right">Derived</TableCell>
+            </TableRow>
+          ))}
+          {/* Add New Row */}
+          {!readOnly && (
+            <TableRow className="bg-muted/20">
+              <TableCell>
+                <Input
+                  type="number"
+                  placeholder="Size"
+                  value={newLimit.householdSize}
+                  onChange={(e) => setNewLimit({ ...newLimit, householdSize: e.target.value })}
+                  className="h-8"
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  step="0.01"
+                  placeholder="Amount"
+                  value={newLimit.limitCents}
+                  onChange={(e) => setNewLimit({ ...newLimit, limitCents: e.target.value })}
+                  className="h-8"
+                />
+              </TableCell>
               <TableCell className="text-right">
                 <Button
-                  variant="ghost"
                   size="sm"
-                  onClick={() => confirmDelete(limit.id)}
+                  onClick={handleAddLimit}
+                  disabled={isCreating}
                 >
-                  <Trash2 className="h-4 w-4 text-red-600" />
+                  {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+                  Add
                 </Button>
               </TableCell>
             </TableRow>
-          ))}
-          {/* Add New Row */}
-          <TableRow className="bg-muted/20">
-            <TableCell>
-              <Input
-                type="number"
-                placeholder="Size"
-                value={newLimit.householdSize}
-                onChange={(e) => setNewLimit({ ...newLimit, householdSize: e.target.value })}
-                className="h-8"
-              />
-            </TableCell>
-            <TableCell>
-              <Input
-                type="number"
-                step="0.01"
-                placeholder="Amount"
-                value={newLimit.limitCents}
-                onChange={(e) => setNewLimit({ ...newLimit, limitCents: e.target.value })}
-                className="h-8"
-              />
-            </TableCell>
-            <TableCell>
-              <Input
-                placeholder="Version"
-                value={newLimit.versionLabel}
-                onChange={(e) => setNewLimit({ ...newLimit, versionLabel: e.target.value })}
-                className="h-8"
-              />
-            </TableCell>
-            <TableCell className="text-right">
-              <Button
-                size="sm"
-                onClick={handleAddLimit}
-                disabled={isCreating}
-              >
-                {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
-                Add
-              </Button>
-            </TableCell>
-          </TableRow>
+          )}
         </TableBody>
       </Table>
 
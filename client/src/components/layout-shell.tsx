@@ -1,6 +1,6 @@
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
-import { LayoutDashboard, FileText, LogOut, Menu, X, Users, ClipboardList } from "lucide-react";
+import { LayoutDashboard, FileText, LogOut, Menu, X, Users, ClipboardList, MapPin } from "lucide-react";
 import { useState } from "react";
 import { useUser, useLogout } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
@@ -16,6 +16,7 @@ export function AppLayout({ children }: { children: React.ReactNode }) {
   const navItems = [
     { icon: ClipboardList, label: "Applications", href: "/app/applications" },
     { icon: FileText, label: "Programs", href: "/app/programs" },
+    { icon: MapPin, label: "AMI Tables", href: "/app/ami-tables" },
   ];
 
   return (
@@ -0,0 +1,175 @@
+import { useState, type ChangeEvent } from "react";
+import { Loader2, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useParseLimitImport, useImportLimitVersion } from "@/hooks/use-programs";
+import { useToast } from "@/hooks/use-toast";
+import { guessLimitColumns, readLimitTable, type LimitColumnMapping } from "@shared/limit-tables";
+
+interface LimitTableImportProps {
+  programId: number;
+  onImported: (versionId: number) => void;
+}
+
+// Upload a published limit table, map its columns, check it, and create a draft version from it
+export function LimitTableImport({ programId, onImported }: LimitTableImportProps) {
+  const { mutate: parseFile, isPending: isParsing } = useParseLimitImport();
+  const { mutate: importVersion, isPending: isImporting } = useImportLimitVersion();
+  const { toast } = useToast();
+
+  const [cells, setCells] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<LimitColumnMapping | null>(null);
+  const [version, setVersion] = useState({ label: "", effectiveStart: "", effectiveEnd: "" });
+
+  const handleFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    parseFile({ programId, file }, {
+      onSuccess: ({ cells }) => {
+        setCells(cells);
+        setMapping(guessLimitColumns(cells[0] ?? []));
+      },
+    });
+  };
+
+  const table = cells && mapping ? readLimitTable(cells, mapping) : null;
+  const columnCount = cells ? Math.max(0, ...cells.map((row) => row.length)) : 0;
+  const columnLabel = (index: number) =>
+    mapping?.hasHeader && cells?.[0]?.[index] ? cells[0][index] : `Column ${String.fromCharCode(65 + index)}`;
+
+  const handleImport = () => {
+    if (!table || table.issues.length > 0) return;
+    if (!version.label.trim() || !version.effectiveStart) {
+      toast({ title: "Label and effective start are required", variant: "destructive" });
+      return;
+    }
+    importVersion({
+      programId,
+      data: {
+        label: version.label.trim(),
+        effectiveStart: new Date(version.effectiveStart),
+        effectiveEnd: version.effectiveEnd ? new Date(version.effectiveEnd) : null,
+        limits: table.rows,
+      },
+    }, {
+      onSuccess: (created) => onImported(created.id),
+    });
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4 bg-muted/20">
+      <div className="grid gap-2">
+        <Label>Limit Table (CSV or XLSX)</Label>
+        <div className="flex items-center gap-2">
+          <Input type="file" accept=".csv,.xlsx" onChange={handleFile} className="h-9" />
+          {isParsing && <Loader2 className="h-4 w-4 animate-spin" />}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          One row per household size. Exports from this screen use the same layout.
+        </p>
+      </div>
+
+      {cells && mapping && table && (
+        <>
+          <div className="grid grid-cols-3 gap-2 items-end">
+            <div className="grid gap-2">
+              <Label className="text-xs">Household Size Column</Label>
+              <Select value={mapping.sizeColumn.toString()} onValueChange={(v) => setMapping({ ...mapping, sizeColumn: Number(v) })}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: columnCount }, (_, i) => (
+                    <SelectItem key={i} value={i.toString()}>{columnLabel(i)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label className="text-xs">Income Limit Column</Label>
+              <Select value={mapping.limitColumn.toString()} onValueChange={(v) => setMapping({ ...mapping, limitColumn: Number(v) })}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: columnCount }, (_, i) => (
+                    <SelectItem key={i} value={i.toString()}>{columnLabel(i)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <label className="flex items-center gap-2 text-sm h-8">
+              <Checkbox
+                checked={mapping.hasHeader}
+                onCheckedChange={(checked) => setMapping({ ...mapping, hasHeader: checked === true })}
+              />
+              First row is a header
+            </label>
+          </div>
+
+          {table.issues.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700 space-y-1">
+              <p className="font-medium flex items-center gap-2"><AlertTriangle className="h-4 w-4" /> Fix these before importing</p>
+              <ul className="list-disc pl-5">
+                {table.issues.map((issue, i) => (
+                  <li key={i}>{issue.row !== null && `Row ${issue.row}: `}{issue.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {table.rows.length > 0 && (
+            <div className="border rounded-md max-h-[240px] overflow-y-auto bg-background">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Household Size</TableHead>
+                    <TableHead className="text-right">Income Limit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...table.rows].sort((a, b) => a.householdSize - b.householdSize).map((row, i) => (
+                    <TableRow key={i}>
+                      <TableCell>{row.householdSize}</TableCell>
+                      <TableCell className="text-right font-mono">${(row.limitCents / 100).toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            <Input
+              placeholder="Label, e.g. 2025-V1"
+              value={version.label}
+              onChange={(e) => setVersion({ ...version, label: e.target.value })}
+              className="h-8"
+            />
+            <Input
+              type="date"
+              value={version.effectiveStart}
+              onChange={(e) => setVersion({ ...version, effectiveStart: e.target.value })}
+              className="h-8"
+            />
+            <Input
+              type="date"
+              value={version.effectiveEnd}
+              onChange={(e) => setVersion({ ...version, effectiveEnd: e.target.value })}
+              className="h-8"
+            />
+          </div>
+          <Button size="sm" onClick={handleImport} disabled={isImporting || table.issues.length > 0}>
+            {isImporting && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+            Import as Draft Version
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Loader2, RefreshCw, ArrowRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useIncomeLimits, useLimitVersionImpact } from "@/hooks/use-programs";
+import { compareLimitTables } from "@shared/limit-tables";
+import type { IncomeLimitVersion } from "@shared/schema";
+
+interface LimitVersionComparisonProps {
+  programId: number;
+  versions: IncomeLimitVersion[];
+  candidate: IncomeLimitVersion;
+}
+
+function formatDollars(cents: number | null) {
+  return cents === null ? "—" : `$${(cents / 100).toLocaleString()}`;
+}
+
+function deltaClass(delta: number | null) {
+  if (!delta) return "text-muted-foreground";
+  return delta > 0 ? "text-green-700" : "text-red-600";
+}
+
+// The candidate is compared against the newest published version unless another is picked
+export function LimitVersionComparison({ programId, versions, candidate }: LimitVersionComparisonProps) {
+  const others = versions.filter((v) => v.id !== candidate.id);
+  const defaultBase = others.find((v) => v.status === "Published") ?? others[0];
+  const [baseId, setBaseId] = useState<number | undefined>(defaultBase?.id);
+  const base = others.find((v) => v.id === baseId) ?? defaultBase;
+
+  const { data: baseLimits, isLoading: loadingBase } = useIncomeLimits(programId, base?.id ?? 0);
+  const { data: candidateLimits, isLoading: loadingCandidate } = useIncomeLimits(programId, candidate.id);
+  const { data: impact, isFetching: checkingImpact, refetch } = useLimitVersionImpact(programId, candidate.id, true);
+
+  if (!base) {
+    return <p className="text-sm text-muted-foreground">Create another version to compare against.</p>;
+  }
+
+  const rows = compareLimitTables(baseLimits ?? [], candidateLimits ?? []);
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4 bg-muted/20">
+      <div className="grid gap-2">
+        <Label className="text-xs">Compare {candidate.label} against</Label>
+        <Select value={base.id.toString()} onValueChange={(v) => setBaseId(Number(v))}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {others.map((v) => (
+              <SelectItem key={v.id} value={v.id.toString()}>{v.label} ({v.status})</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loadingBase || loadingCandidate ? (
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      ) : (
+        <div className="border rounded-md overflow-hidden bg-background">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Household Size</TableHead>
+                <TableHead className="text-right">{base.label}</TableHead>
+                <TableHead className="text-right">{candidate.label}</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead className="text-right">%</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.householdSize}>
+                  <TableCell>{row.householdSize}</TableCell>
+                  <TableCell className="text-right font-mono">{formatDollars(row.baseCents)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatDollars(row.candidateCents)}</TableCell>
+                  <TableCell className={`text-right font-mono ${deltaClass(row.deltaCents)}`}>
+                    {row.deltaCents === null ? "—" : `${row.deltaCents > 0 ? "+" : row.deltaCents < 0 ? "-" : ""}${formatDollars(Math.abs(row.deltaCents))}`}
+                  </TableCell>
+                  <TableCell className={`text-right font-mono ${deltaClass(row.deltaCents)}`}>
+                    {row.deltaPercent === null ? "—" : `${row.deltaPercent > 0 ? "+" : ""}${row.deltaPercent}%`}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold">Impact on Pending Applications</h4>
+          <Button size="sm" variant="ghost" className="h-7" onClick={() => refetch()} disabled={checkingImpact}>
+            {checkingImpact ? <Loader2 className="h-3 w-3 animate-spin mr-1" /> : <RefreshCw className="h-3 w-3 mr-1" />}
+            Recheck
+          </Button>
+        </div>
+        {impact && (
+          <>
+            <p className="text-sm">
+              {impact.changes.length} of {impact.evaluated} Submitted or Needs Info application{impact.evaluated === 1 ? "" : "s"} would
+              change result if {candidate.label} applied to them.
+            </p>
+            {impact.changes.length > 0 && (
+              <ul className="text-sm space-y-1">
+                {impact.changes.map((change) => (
+                  <li key={change.applicationId} className="flex items-center gap-2">
+                    <span className="font-medium">{change.applicantName}</span>
+                    <span className="text-xs text-muted-foreground">#{change.applicationId}</span>
+                    <span className="flex items-center gap-1 text-xs">
+                      {change.previousResult ?? "None"} <ArrowRight className="h-3 w-3" /> {change.newResult}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+        <p className="text-xs text-muted-foreground">This is a preview; no applications are changed.</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useReevaluateApplications } from "@/hooks/use-programs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, RefreshCw, ArrowRight } from "lucide-react";
+import type { ReevaluationChange } from "@shared/schema";
+
+interface ReevaluationReport {
+  applied: boolean;
+  evaluated: number;
+  changes: ReevaluationChange[];
+}
+
+function formatLimit(cents: number | null) {
+  return cents === null ? "N/A" : `$${(cents / 100).toLocaleString()}`;
+}
+
+export function ReevaluationPanel({ programId }: { programId: number }) {
+  const { mutate: reevaluate, isPending } = useReevaluateApplications();
+  const [report, setReport] = useState<ReevaluationReport | null>(null);
+
+  const run = (apply: boolean) => {
+    reevaluate({ programId, apply }, { onSuccess: setReport });
+  };
+
+  const flipped = report?.changes.filter((c) => c.previousResult !== c.newResult).length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="font-semibold">Re-evaluate Pending Applications</h3>
+        <p className="text-sm text-muted-foreground">
+          Re-runs eligibility for Submitted and Needs Info applications against the current limits and rules,
+          as of each application's submission date. Preview first; nothing is saved until you apply.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => run(false)} disabled={isPending}>
+          {isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+          Preview Changes
+        </Button>
+        {report && !report.applied && report.changes.length > 0 && (
+          <Button size="sm" onClick={() => run(true)} disabled={isPending}>
+            Apply {report.changes.length} Change{report.changes.length === 1 ? "" : "s"}
+          </Button>
+        )}
+      </div>
+
+      {report && (
+        <>
+          <p className="text-sm">
+            {report.applied ? "Updated" : "Would update"} {report.changes.length} of {report.evaluated} pending application(s)
+            {flipped > 0 && <span className="font-medium"> · {flipped} result{flipped === 1 ? "" : "s"} flip</span>}.
+          </p>
+
+          {report.changes.length > 0 && (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50">
+                    <TableHead>Applicant</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead>Limit</TableHead>
+                    <TableHead>Tier</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.changes.map((change) => (
+                    <TableRow key={change.applicationId}>
+                      <TableCell>
+                        <div className="font-medium">{change.applicantName}</div>
+                        <div className="text-xs text-muted-foreground">#{change.applicationId} · {change.status}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1 text-xs">
+                          <span>{change.previousResult ?? "None"}</span>
+                          <ArrowRight className="h-3 w-3" />
+                          {change.previousResult !== change.newResult
+                            ? <Badge variant="outline" className="bg-yellow-50 text-yellow-800">{change.newResult}</Badge>
+                            : <span>{change.newResult}</span>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs font-mono">
+                        {formatLimit(change.previousLimitCents)} → {formatLimit(change.newLimitCents)}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {change.previousTier ?? "—"} → {change.newTier ?? "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useRef, type ReactNode } from "react";
+import { Bold, Italic, List, Link as LinkIcon, Heading } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+// Renders the Markdown subset program descriptions use: "## " headings, "- " and
+// "1. " lists, **bold**, *italic* and [links](https://...). Built as React
+// elements, never HTML, so descriptions can't inject markup.
+
+const inlinePattern = /(\*\*[^*]+\*\*|\*[^*]+\*|\[[^\]]+\]\([^)\s]+\))/g;
+
+function renderInline(text: string): ReactNode[] {
+  return text.split(inlinePattern).map((part, i) => {
+    if (part.startsWith("**") && part.endsWith("**") && part.length > 4) {
+      return <strong key={i}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith("*") && part.endsWith("*") && part.length > 2) {
+      return <em key={i}>{part.slice(1, -1)}</em>;
+    }
+    const link = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(part);
+    if (link) {
+      return /^(https?:|mailto:)/i.test(link[2])
+        ? <a key={i} href={link[2]} target="_blank" rel="noopener noreferrer" className="text-primary underline">{link[1]}</a>
+        : link[1];
+    }
+    return part;
+  });
+}
+
+function renderBlock(block: string, key: number): ReactNode {
+  const lines = block.split("\n");
+  if (lines.every((l) => /^[-*] /.test(l))) {
+    return <ul key={key} className="list-disc pl-5 space-y-1">{lines.map((l, i) => <li key={i}>{renderInline(l.slice(2))}</li>)}</ul>;
+  }
+  if (lines.every((l) => /^\d+\. /.test(l))) {
+    return (
+      <ol key={key} className="list-decimal pl-5 space-y-1">
+        {lines.map((l, i) => <li key={i}>{renderInline(l.replace(/^\d+\. /, ""))}</li>)}
+      </ol>
+    );
+  }
+  if (lines.length === 1 && lines[0].startsWith("## ")) {
+    return <h3 key={key} className="text-lg font-semibold">{renderInline(lines[0].slice(3))}</h3>;
+  }
+  return (
+    <p key={key}>
+      {lines.map((l, i) => <span key={i}>{i > 0 && <br />}{renderInline(l)}</span>)}
+    </p>
+  );
+}
+
+export function RichText({ source, className }: { source: string; className?: string }) {
+  const blocks = source.replace(/\r\n/g, "\n").split(/\n\s*\n/).map((b) => b.trim()).filter(Boolean);
+  return <div className={className ?? "space-y-3 text-sm leading-relaxed"}>{blocks.map(renderBlock)}</div>;
+}
+
+interface RichTextEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+export function RichTextEditor({ value, onChange, placeholder }: RichTextEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Wraps the selection, or inserts the markers with placeholder text
+  const wrap = (before: string, after: string, fallback: string) => {
+    const el = textareaRef.current;
+    const start = el?.selectionStart ?? value.length;
+    const end = el?.selectionEnd ?? value.length;
+    const selected = value.slice(start, end) || fallback;
+    onChange(value.slice(0, start) + before + selected + after + value.slice(end));
+  };
+
+  const prefixLine = (prefix: string) => {
+    const start = textareaRef.current?.selectionStart ?? value.length;
+    const lineStart = value.lastIndexOf("\n", start - 1) + 1;
+    onChange(value.slice(0, lineStart) + prefix + value.slice(lineStart));
+  };
+
+  return (
+    <Tabs defaultValue="write">
+      <div className="flex items-center justify-between">
+        <TabsList className="h-8">
+          <TabsTrigger value="write" className="text-xs">Write</TabsTrigger>
+          <TabsTrigger value="preview" className="text-xs">Preview</TabsTrigger>
+        </TabsList>
+        <div className="flex gap-1">
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Heading" onClick={() => prefixLine("## ")}>
+            <Heading className="h-3 w-3" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Bold" onClick={() => wrap("**", "**", "bold text")}>
+            <Bold className="h-3 w-3" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Italic" onClick={() => wrap("*", "*", "italic text")}>
+            <Italic className="h-3 w-3" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Bulleted list" onClick={() => prefixLine("- ")}>
+            <List className="h-3 w-3" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Link" onClick={() => wrap("[", "](https://)", "link text")}>
+            <LinkIcon className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+      <TabsContent value="write">
+        <Textarea ref={textareaRef} value={value} onChange={(e) => onChange(e.target.value)} placeholder={placeholder} rows={8} />
+      </TabsContent>
+      <TabsContent value="preview">
+        <div className="border rounded-md p-3 min-h-[160px]">
+          {value.trim() ? <RichText source={value} /> : <p className="text-sm text-muted-foreground">Nothing to preview.</p>}
+        </div>
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useServiceAreaCounties } from "@/hooks/use-service-areas";
+import { serviceAreaSchema, type ServiceArea } from "@shared/schema";
+import { describeServiceArea, serviceAreaKey } from "@shared/service-areas";
+
+interface ServiceAreaInputProps {
+  value: ServiceArea[];
+  onChange: (value: ServiceArea[]) => void;
+  disabled?: boolean;
+}
+
+export function ServiceAreaInput({ value, onChange, disabled = false }: ServiceAreaInputProps) {
+  const { data: counties } = useServiceAreaCounties();
+  const [type, setType] = useState<ServiceArea["type"]>("County");
+  const [state, setState] = useState("");
+  const [county, setCounty] = useState("");
+  const [error, setError] = useState("");
+
+  // The full county list is long, so counties are picked within a state
+  const selectedState = state.trim().toUpperCase();
+  const stateCounties = counties?.filter((c) => c.state === selectedState) ?? [];
+
+  const addArea = () => {
+    const parsed = serviceAreaSchema.safeParse(
+      type === "State" ? { type, state: selectedState } : { type, state: selectedState, county }
+    );
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      return;
+    }
+    if (value.some((a) => serviceAreaKey(a) === serviceAreaKey(parsed.data))) {
+      setError("Area already added");
+      return;
+    }
+    onChange([...value, parsed.data]);
+    setState("");
+    setCounty("");
+    setError("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((area) => (
+            <Badge key={serviceAreaKey(area)} variant="secondary" className="gap-1">
+              {describeServiceArea(area)}
+              {!disabled && (
+                <button
+                  type="button"
+                  onClick={() => onChange(value.filter((a) => serviceAreaKey(a) !== serviceAreaKey(area)))}
+                  className="ml-1 hover:bg-muted rounded-full"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Select value={type} onValueChange={(v) => { setType(v as ServiceArea["type"]); setError(""); }} disabled={disabled}>
+          <SelectTrigger className="w-[120px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="County">County</SelectItem>
+            <SelectItem value="State">State</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Input
+          className="w-24"
+          placeholder="NY"
+          maxLength={2}
+          value={state}
+          onChange={(e) => { setState(e.target.value); setCounty(""); }}
+          disabled={disabled}
+        />
+        {type === "County" && (
+          <Select value={county} onValueChange={setCounty} disabled={disabled || stateCounties.length === 0}>
+            <SelectTrigger className="w-[240px]">
+              <SelectValue placeholder={selectedState.length === 2 ? "Select a county" : "Enter a state first"} />
+            </SelectTrigger>
+            <SelectContent>
+              {stateCounties.map((c) => (
+                <SelectItem key={c.county} value={c.county}>
+                  {c.county} ({c.zipCount} ZIPs)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <Button type="button" variant="outline" onClick={addArea} disabled={disabled}>
+          Add
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <p className="text-xs text-muted-foreground">
+        Applicants qualify if their ZIP is listed above or falls in one of these areas. A ZIP's state and county come
+        from bundled GeoNames postal data; ZIPs missing from it are sent to review.
+      </p>
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
-import { useState, KeyboardEvent } from "react";
-import { X } from "lucide-react";
+import { useState, KeyboardEvent, ChangeEvent } from "react";
+import { X, Upload } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
+import { parseZipList, type ZipImportResult } from "@shared/service-areas";
 
 interface ZipCodeInputProps {
   value: string[];
@@ -19,6 +22,9 @@ export function ZipCodeInput({
 }: ZipCodeInputProps) {
   const [inputValue, setInputValue] = useState("");
   const [error, setError] = useState("");
+  const [importOpen, setImportOpen] = useState(false);
+  const [importText, setImportText] = useState("");
+  const [importResult, setImportResult] = useState<ZipImportResult | null>(null);
 
   const addZipCode = (zip: string) => {
     const trimmedZip = zip.trim();
@@ -62,6 +68,19 @@ export function ZipCodeInput({
     }
   };
 
+  const importZipCodes = (text: string) => {
+    const result = parseZipList(text, value);
+    if (result.added.length > 0) onChange([...value, ...result.added]);
+    setImportResult(result);
+    setImportText("");
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) importZipCodes(await file.text());
+    e.target.value = "";
+  };
+
   return (
     <div className="space-y-2">
       <div className="flex flex-wrap gap-2 p-2 border rounded-md min-h-[42px] bg-background">
@@ -97,9 +116,43 @@ export function ZipCodeInput({
         />
       </div>
       {error && <p className="text-sm text-red-600">{error}</p>}
-      <p className="text-xs text-muted-foreground">
-        Press Enter or comma after each ZIP code. Leave empty to allow all ZIP codes.
-      </p>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          Press Enter or comma after each ZIP code. Leave empty to allow all ZIP codes.
+        </p>
+        {!disabled && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => setImportOpen(!importOpen)}>
+            <Upload className="h-3 w-3 mr-1" /> Import List
+          </Button>
+        )}
+      </div>
+      {importOpen && (
+        <div className="border rounded-md p-3 space-y-2 bg-muted/20">
+          <Textarea
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            placeholder="Paste ZIP codes separated by commas, spaces or new lines"
+            rows={4}
+          />
+          <div className="flex items-center gap-2">
+            <Button type="button" size="sm" onClick={() => importZipCodes(importText)} disabled={!importText.trim()}>
+              Add ZIPs
+            </Button>
+            <Input type="file" accept=".csv,.txt" onChange={handleFile} className="max-w-[240px]" />
+          </div>
+          {importResult && (
+            <div className="text-xs space-y-1">
+              <p>
+                Added {importResult.added.length} ZIP code{importResult.added.length === 1 ? "" : "s"}
+                {importResult.duplicates.length > 0 && `, skipped ${importResult.duplicates.length} duplicate${importResult.duplicates.length === 1 ? "" : "s"}`}.
+              </p>
+              {importResult.invalid.length > 0 && (
+                <p className="text-red-600">Not valid ZIP codes: {importResult.invalid.join(", ")}</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,97 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { useToast } from "@/hooks/use-toast";
+import type { z } from "zod";
+
+export function useAmiTables() {
+  return useQuery({
+    queryKey: [api.amiTables.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.amiTables.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch AMI tables");
+      return api.amiTables.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useAmiTable(id: number) {
+  return useQuery({
+    queryKey: [api.amiTables.get.path, id],
+    queryFn: async () => {
+      const url = buildUrl(api.amiTables.get.path, { id });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch AMI table");
+      return api.amiTables.get.responses[200].parse(await res.json());
+    },
+    enabled: !!id,
+  });
+}
+
+export function useCreateAmiTable() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: z.infer<typeof api.amiTables.create.input>) => {
+      const res = await fetch(api.amiTables.create.path, {
+        method: api.amiTables.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to create AMI table");
+      return api.amiTables.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.amiTables.list.path] });
+      toast({
+        title: "AMI Table Created",
+        description: "Add areas and median incomes to start using it.",
+      });
+    },
+  });
+}
+
+export function useCreateAmiArea() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ tableId, data }: { tableId: number; data: z.infer<typeof api.amiTables.createArea.input> }) => {
+      const url = buildUrl(api.amiTables.createArea.path, { id: tableId });
+      const res = await fetch(url, {
+        method: api.amiTables.createArea.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to add area");
+      return api.amiTables.createArea.responses[201].parse(await res.json());
+    },
+    onSuccess: (_, { tableId }) => {
+      queryClient.invalidateQueries({ queryKey: [api.amiTables.get.path, tableId] });
+      toast({
+        title: "Area Added",
+        description: "Median incomes have been saved.",
+      });
+    },
+  });
+}
+
+export function useDeleteAmiArea() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tableId, areaId }: { tableId: number; areaId: number }) => {
+      const url = buildUrl(api.amiTables.deleteArea.path, { id: tableId, areaId });
+      const res = await fetch(url, {
+        method: api.amiTables.deleteArea.method,
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to delete area");
+    },
+    onSuccess: (_, { tableId }) => {
+      queryClient.invalidateQueries({ queryKey: [api.amiTables.get.path, tableId] });
+    },
+  });
+}
@@ -2,6 +2,14 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api, buildUrl } from "@shared/routes";
 import { useToast } from "@/hooks/use-toast";
 import type { z } from "zod";
+import type { SubmissionIssue } from "@shared/schema";
+
+// A rejected submit, with the answers the server found missing or invalid
+export class SubmissionError extends Error {
+  constructor(message: string, public issues: SubmissionIssue[]) {
+    super(message);
+  }
+}
 
 export function useApplications(params?: { status?: string; programId?: string; search?: string }) {
   const queryParams = new URLSearchParams();
@@ -47,6 +55,31 @@ export function useApplicationByToken(token: string) {
   });
 }
 
+export function usePrescreen() {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (data: z.infer<typeof api.applications.prescreen.input>) => {
+      const res = await fetch(api.applications.prescreen.path, {
+        method: api.applications.prescreen.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to check eligibility");
+      }
+      return api.applications.prescreen.responses[200].parse(await res.json());
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not check eligibility",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
 export function useStartApplication() {
   const { toast } = useToast();
   return useMutation({
@@ -56,7 +89,10 @@ export function useStartApplication() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(data),
       });
-      if (!res.ok) throw new Error("Failed to start application");
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to start application");
+      }
       return api.applications.start.responses[201].parse(await res.json());
     },
     onError: (error) => {
@@ -69,34 +105,116 @@ export function useStartApplication() {
   });
 }
 
+// Another tab (or a reviewer) saved the application after this copy was loaded
+export class SaveConflictError extends Error {}
+
+// The server refused the changes themselves; sending them again won't help
+export class SaveRejectedError extends Error {}
+
+function saveError(status: number, message: string) {
+  if (status === 409) return new SaveConflictError(message);
+  return status >= 400 && status < 500 ? new SaveRejectedError(message) : new Error(message);
+}
+
+async function patchApplication(token: string, updates: z.infer<typeof api.applications.updateByToken.input>) {
+  const url = buildUrl(api.applications.updateByToken.path, { token });
+  const res = await fetch(url, {
+    method: api.applications.updateByToken.method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(updates),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    const message = body?.message || "Your changes could not be saved automatically.";
+    throw saveError(res.status, message);
+  }
+  return api.applications.updateByToken.responses[200].parse(await res.json());
+}
+
 export function useUpdateApplication(token: string) {
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
   return useMutation({
-    mutationFn: async (updates: z.infer<typeof api.applications.updateByToken.input>) => {
-      const url = buildUrl(api.applications.updateByToken.path, { token });
-      const res = await fetch(url, {
-        method: api.applications.updateByToken.method,
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(updates),
+    mutationFn: (updates: z.infer<typeof api.applications.updateByToken.input>) => patchApplication(token, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.applications.getByToken.path, token] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save",
+        description: error.message,
+        variant: "destructive",
       });
-      if (!res.ok) throw new Error("Failed to save changes");
-      return api.applications.updateByToken.responses[200].parse(await res.json());
     },
+  });
+}
+
+// Background saves while the applicant types. The cached application is patched in
+// place rather than refetched, and errors are left to the caller's saved indicator.
+export function useAutosaveApplication(token: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (updates: z.infer<typeof api.applications.updateByToken.input>) => patchApplication(token, updates),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(
+        [api.applications.getByToken.path, token],
+        (current: z.infer<typeof api.applications.getByToken.responses[200]> | undefined) => current && { ...current, ...updated }
+      );
+    },
+  });
+}
+
+async function putIncomeLineItems(token: string, data: z.infer<typeof api.applications.replaceIncomeByToken.input>) {
+  const url = buildUrl(api.applications.replaceIncomeByToken.path, { token });
+  const res = await fetch(url, {
+    method: api.applications.replaceIncomeByToken.method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    const message = body?.message || "Your income details could not be saved.";
+    throw saveError(res.status, message);
+  }
+  return api.applications.replaceIncomeByToken.responses[200].parse(await res.json());
+}
+
+export function useReplaceIncomeLineItems(token: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (data: z.infer<typeof api.applications.replaceIncomeByToken.input>) => putIncomeLineItems(token, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [api.applications.getByToken.path, token] });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Failed to save",
-        description: "Your changes could not be saved automatically.",
+        description: error.message,
         variant: "destructive",
       });
     },
   });
 }
 
+// Background saves of the income rows, handled like useAutosaveApplication
+export function useAutosaveIncomeLineItems(token: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: z.infer<typeof api.applications.replaceIncomeByToken.input>) => putIncomeLineItems(token, data),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(
+        [api.applications.getByToken.path, token],
+        (current: z.infer<typeof api.applications.getByToken.responses[200]> | undefined) => current && { ...current, ...saved }
+      );
+    },
+  });
+}
+
 export function useSubmitApplication(token: string) {
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -105,7 +223,10 @@ export function useSubmitApplication(token: string) {
     mutationFn: async () => {
       const url = buildUrl(api.applications.submitByToken.path, { token });
       const res = await fetch(url, { method: api.applications.submitByToken.method });
-      if (!res.ok) throw new Error("Failed to submit application");
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new SubmissionError(body?.message || "Failed to submit application", body?.issues ?? []);
+      }
       return api.applications.submitByToken.responses[200].parse(await res.json());
     },
     onSuccess: () => {
@@ -138,17 +259,63 @@ export function useApplicationDecision() {
         body: JSON.stringify(data),
         credentials: "include",
       });
-      if (!res.ok) throw new Error("Failed to submit decision");
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to submit decision");
+      }
       return api.applications.decision.responses[200].parse(await res.json());
     },
     onSuccess: (_, { id }) => {
       queryClient.invalidateQueries({ queryKey: [api.applications.list.path] });
       queryClient.invalidateQueries({ queryKey: [api.applications.get.path, id] });
+      queryClient.invalidateQueries({ queryKey: [api.programs.capacity.path] });
       toast({
         title: "Decision recorded",
         description: "The application status has been updated.",
       });
     },
+    onError: (error) => {
+      toast({
+        title: "Could not record decision",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function usePromoteApplication() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.applications.promote.path, { id }), {
+        method: api.applications.promote.method,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to promote application");
+      }
+      return api.applications.promote.responses[200].parse(await res.json());
+    },
+    onSuccess: (app) => {
+      queryClient.invalidateQueries({ queryKey: [api.applications.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.applications.get.path, app.id] });
+      queryClient.invalidateQueries({ queryKey: [api.programs.capacity.path] });
+      toast({
+        title: "Application Promoted",
+        description: `${app.applicantName} is back in the review queue.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not promote application",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 }
 
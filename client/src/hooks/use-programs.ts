@@ -3,11 +3,12 @@ import { api, buildUrl } from "@shared/routes";
 import { useToast } from "@/hooks/use-toast";
 import type { z } from "zod";
 
-export function usePrograms() {
+export function usePrograms(params?: { includeClosed?: boolean }) {
   return useQuery({
-    queryKey: [api.programs.list.path],
+    queryKey: [api.programs.list.path, params],
     queryFn: async () => {
-      const res = await fetch(api.programs.list.path);
+      const url = params?.includeClosed ? `${api.programs.list.path}?includeClosed=true` : api.programs.list.path;
+      const res = await fetch(url, { credentials: "include" });
       if (!res.ok) throw new Error("Failed to fetch programs");
       return api.programs.list.responses[200].parse(await res.json());
     },
@@ -27,6 +28,21 @@ export function useProgram(id: number) {
   });
 }
 
+// Null when no public program has this slug
+export function useProgramBySlug(slug: string) {
+  return useQuery({
+    queryKey: [api.programs.getBySlug.path, slug],
+    queryFn: async () => {
+      const url = buildUrl(api.programs.getBySlug.path, { slug });
+      const res = await fetch(url);
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error("Failed to fetch program");
+      return api.programs.getBySlug.responses[200].parse(await res.json());
+    },
+    enabled: !!slug,
+  });
+}
+
 export function useCreateProgram() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -39,9 +55,19 @@ export function useCreateProgram() {
         body: JSON.stringify(data),
         credentials: "include",
       });
-      if (!res.ok) throw new Error("Failed to create program");
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to create program");
+      }
       return api.programs.create.responses[201].parse(await res.json());
     },
+    onError: (error) => {
+      toast({
+        title: "Could not create program",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [api.programs.list.path] });
       toast({
@@ -57,7 +83,7 @@ export function useUpdateProgram() {
   const { toast } = useToast();
 
   return useMutation({
-    mutationFn: async ({ id, data }: { id: number; data: any }) => {
+    mutationFn: async ({ id, data }: { id: number; data: z.infer<typeof api.programs.update.input> }) => {
       const url = buildUrl(api.programs.update.path, { id });
       const res = await fetch(url, {
         method: api.programs.update.method,
@@ -65,12 +91,23 @@ export function useUpdateProgram() {
         body: JSON.stringify(data),
         credentials: "include",
       });
-      if (!res.ok) throw new Error("Failed to update program");
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to update program");
+      }
       return api.programs.update.responses[200].parse(await res.json());
     },
+    onError: (error) => {
+      toast({
+        title: "Could not save program",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
     onSuccess: (_, { id }) => {
       queryClient.invalidateQueries({ queryKey: [api.programs.list.path] });
       queryClient.invalidateQueries({ queryKey: [api.programs.get.path, id] });
+      queryClient.invalidateQueries({ queryKey: [api.programs.capacity.path] });
       toast({
         title: "Program Updated",
         description: "Changes saved successfully.",
@@ -79,16 +116,368 @@ export function useUpdateProgram() {
   });
 }
 
-export function useIncomeLimits(programId: number) {
+export function useProgramCapacities() {
   return useQuery({
-    queryKey: [api.incomeLimits.list.path, programId],
+    queryKey: [api.programs.capacity.path],
     queryFn: async () => {
-      const url = buildUrl(api.incomeLimits.list.path, { id: programId });
+      const res = await fetch(api.programs.capacity.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch program capacity");
+      return api.programs.capacity.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useArchiveProgram() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, archived }: { id: number; archived: boolean }) => {
+      const route = archived ? api.programs.archive : api.programs.unarchive;
+      const res = await fetch(buildUrl(route.path, { id }), {
+        method: route.method,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to update program");
+      }
+      return route.responses[200].parse(await res.json());
+    },
+    onSuccess: (program, { id, archived }) => {
+      queryClient.invalidateQueries({ queryKey: [api.programs.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.programs.get.path, id] });
+      toast({
+        title: archived ? "Program Archived" : "Program Restored",
+        description: archived
+          ? `${program.name} is hidden from applicants. Its applications remain available for review.`
+          : `${program.name} is visible to applicants again while its dates are open.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not update program",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useDeleteProgram() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.programs.delete.path, { id }), {
+        method: api.programs.delete.method,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to delete program");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.programs.list.path] });
+      toast({
+        title: "Program Deleted",
+        description: "The program and its income limits have been removed.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not delete program",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useDuplicateProgram() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: z.input<typeof api.programs.duplicate.input> }) => {
+      const url = buildUrl(api.programs.duplicate.path, { id });
+      const res = await fetch(url, {
+        method: api.programs.duplicate.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to duplicate program");
+      }
+      return api.programs.duplicate.responses[201].parse(await res.json());
+    },
+    onSuccess: (program) => {
+      queryClient.invalidateQueries({ queryKey: [api.programs.list.path] });
+      toast({
+        title: "Program Duplicated",
+        description: `${program.name} was created. Review and publish its draft limits before opening it.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not duplicate program",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useReevaluateApplications() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ programId, apply }: { programId: number; apply: boolean }) => {
+      const url = buildUrl(api.programs.reevaluate.path, { id: programId });
+      const res = await fetch(url, {
+        method: api.programs.reevaluate.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ apply }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to re-evaluate applications");
+      }
+      return api.programs.reevaluate.responses[200].parse(await res.json());
+    },
+    onSuccess: (result) => {
+      if (!result.applied) return;
+      queryClient.invalidateQueries({ queryKey: [api.applications.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.applications.get.path] });
+      toast({
+        title: "Re-evaluation Applied",
+        description: `${result.changes.length} application(s) updated.`,
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Re-evaluation failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useLimitVersions(programId: number) {
+  return useQuery({
+    queryKey: [api.limitVersions.list.path, programId],
+    queryFn: async () => {
+      const url = buildUrl(api.limitVersions.list.path, { id: programId });
+      const res = await fetch(url);
+      if (!res.ok) throw new Error("Failed to fetch limit versions");
+      return api.limitVersions.list.responses[200].parse(await res.json());
+    },
+    enabled: !!programId,
+  });
+}
+
+export function useCreateLimitVersion() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ programId, data }: { programId: number; data: z.infer<typeof api.limitVersions.create.input> }) => {
+      const url = buildUrl(api.limitVersions.create.path, { id: programId });
+      const res = await fetch(url, {
+        method: api.limitVersions.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to create limit version");
+      }
+      return api.limitVersions.create.responses[201].parse(await res.json());
+    },
+    onSuccess: (_, { programId }) => {
+      queryClient.invalidateQueries({ queryKey: [api.limitVersions.list.path, programId] });
+      toast({
+        title: "Draft Version Created",
+        description: "Edit its limits, then publish when ready.",
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Could not create version", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useParseLimitImport() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ programId, file }: { programId: number; file: File }) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const url = buildUrl(api.limitVersions.parseImport.path, { id: programId });
+      const res = await fetch(url, {
+        method: api.limitVersions.parseImport.method,
+        body: formData,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to read file");
+      }
+      return api.limitVersions.parseImport.responses[200].parse(await res.json());
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't read file", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useImportLimitVersion() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ programId, data }: { programId: number; data: z.infer<typeof api.limitVersions.import.input> }) => {
+      const url = buildUrl(api.limitVersions.import.path, { id: programId });
+      const res = await fetch(url, {
+        method: api.limitVersions.import.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to import limits");
+      }
+      return api.limitVersions.import.responses[201].parse(await res.json());
+    },
+    onSuccess: (_, { programId, data }) => {
+      queryClient.invalidateQueries({ queryKey: [api.limitVersions.list.path, programId] });
+      toast({
+        title: "Limits Imported",
+        description: `${data.limits.length} household sizes added to a new draft version.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useUpdateLimitVersion() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ programId, versionId, updates }: { programId: number; versionId: number; updates: z.infer<typeof api.limitVersions.update.input> }) => {
+      const url = buildUrl(api.limitVersions.update.path, { id: programId, versionId });
+      const res = await fetch(url, {
+        method: api.limitVersions.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to update limit version");
+      }
+      return api.limitVersions.update.responses[200].parse(await res.json());
+    },
+    onSuccess: (_, { programId }) => {
+      queryClient.invalidateQueries({ queryKey: [api.limitVersions.list.path, programId] });
+    },
+    onError: (error) => {
+      toast({ title: "Update failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function usePublishLimitVersion() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ programId, versionId }: { programId: number; versionId: number }) => {
+      const url = buildUrl(api.limitVersions.publish.path, { id: programId, versionId });
+      const res = await fetch(url, {
+        method: api.limitVersions.publish.method,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to publish limit version");
+      }
+      return api.limitVersions.publish.responses[200].parse(await res.json());
+    },
+    onSuccess: (_, { programId }) => {
+      queryClient.invalidateQueries({ queryKey: [api.limitVersions.list.path, programId] });
+      toast({
+        title: "Version Published",
+        description: "These limits are now read-only.",
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Publish failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDeleteLimitVersion() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ programId, versionId }: { programId: number; versionId: number }) => {
+      const url = buildUrl(api.limitVersions.delete.path, { id: programId, versionId });
+      const res = await fetch(url, {
+        method: api.limitVersions.delete.method,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to delete limit version");
+      }
+    },
+    onSuccess: (_, { programId }) => {
+      queryClient.invalidateQueries({ queryKey: [api.limitVersions.list.path, programId] });
+      toast({
+        title: "Draft Deleted",
+        description: "The draft limit version has been removed.",
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Delete failed", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useIncomeLimits(programId: number, versionId: number) {
+  return useQuery({
+    queryKey: [api.incomeLimits.list.path, programId, versionId],
+    queryFn: async () => {
+      const url = buildUrl(api.incomeLimits.list.path, { id: programId, versionId });
       const res = await fetch(url);
       if (!res.ok) throw new Error("Failed to fetch limits");
       return api.incomeLimits.list.responses[200].parse(await res.json());
     },
-    enabled: !!programId,
+    enabled: !!programId && !!versionId,
+  });
+}
+
+export function useLimitVersionImpact(programId: number, versionId: number | undefined, enabled: boolean) {
+  return useQuery({
+    queryKey: [api.limitVersions.impact.path, programId, versionId],
+    queryFn: async () => {
+      const url = buildUrl(api.limitVersions.impact.path, { id: programId, versionId: versionId! });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to check impact");
+      return api.limitVersions.impact.responses[200].parse(await res.json());
+    },
+    enabled: enabled && !!programId && !!versionId,
   });
 }
 
@@ -97,15 +486,22 @@ export function useCreateIncomeLimit() {
   const { toast } = useToast();
 
   return useMutation({
-    mutationFn: async ({ programId, data }: { programId: number; data: any }) => {
-      const url = buildUrl(api.incomeLimits.create.path, { id: programId });
+    mutationFn: async ({ programId, versionId, data }: {
+      programId: number;
+      versionId: number;
+      data: z.infer<typeof api.incomeLimits.create.input>;
+    }) => {
+      const url = buildUrl(api.incomeLimits.create.path, { id: programId, versionId });
       const res = await fetch(url, {
         method: api.incomeLimits.create.method,
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(data),
         credentials: "include",
       });
-      if (!res.ok) throw new Error("Failed to create income limit");
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to create income limit");
+      }
       return api.incomeLimits.create.responses[201].parse(await res.json());
     },
     onSuccess: (_, { programId }) => {
@@ -115,14 +511,22 @@ export function useCreateIncomeLimit() {
         description: "New income limit has been created.",
       });
     },
+    onError: (error) => {
+      toast({ title: "Failed to add limit", description: error.message, variant: "destructive" });
+    },
   });
 }
 
 export function useUpdateIncomeLimit() {
   const queryClient = useQueryClient();
+  const { toast } = useToast();
 
   return useMutation({
-    mutationFn: async ({ programId, limitId, updates }: { programId: number; limitId: number; updates: any }) => {
+    mutationFn: async ({ programId, limitId, updates }: {
+      programId: number;
+      limitId: number;
+      updates: z.infer<typeof api.incomeLimits.update.input>;
+    }) => {
       const url = buildUrl(api.incomeLimits.update.path, { id: programId, limitId });
       const res = await fetch(url, {
         method: api.incomeLimits.update.method,
@@ -130,12 +534,18 @@ export function useUpdateIncomeLimit() {
         body: JSON.stringify(updates),
         credentials: "include",
       });
-      if (!res.ok) throw new Error("Failed to update income limit");
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to update income limit");
+      }
       return api.incomeLimits.update.responses[200].parse(await res.json());
     },
     onSuccess: (_, { programId }) => {
       queryClient.invalidateQueries({ queryKey: [api.incomeLimits.list.path, programId] });
     },
+    onError: (error) => {
+      toast({ title: "Failed to update limit", description: error.message, variant: "destructive" });
+    },
   });
 }
 
@@ -150,7 +560,10 @@ export function useDeleteIncomeLimit() {
         method: api.incomeLimits.delete.method,
         credentials: "include",
       });
-      if (!res.ok) throw new Error("Failed to delete income limit");
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Failed to delete income limit");
+      }
     },
     onSuccess: (_, { programId }) => {
       queryClient.invalidateQueries({ queryKey: [api.incomeLimits.list.path, programId] });
@@ -159,5 +572,8 @@ export function useDeleteIncomeLimit() {
         description: "The income limit has been removed.",
       });
     },
+    onError: (error) => {
+      toast({ title: "Failed to delete limit", description: error.message, variant: "destructive" });
+    },
   });
 }
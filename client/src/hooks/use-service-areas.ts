@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+
+export function useServiceAreaCounties() {
+  return useQuery({
+    queryKey: [api.serviceAreas.counties.path],
+    queryFn: async () => {
+      const res = await fetch(api.serviceAreas.counties.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch counties");
+      return api.serviceAreas.counties.responses[200].parse(await res.json());
+    },
+    staleTime: Infinity, // Bundled dataset only changes with a deploy
+  });
+}
@@ -0,0 +1,141 @@
+import { useRoute, Link } from "wouter";
+import { format } from "date-fns";
+import { useProgramBySlug } from "@/hooks/use-programs";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { RichText } from "@/components/rich-text";
+import { Loader2, ArrowRight, CalendarDays, FileText, MapPin, CheckCircle2 } from "lucide-react";
+import { getProgramWindowStatus, getSubmissionDeadline } from "@shared/availability";
+import { parseCriteria, describeCriterion } from "@shared/criteria";
+import { parseServiceAreas, describeServiceArea } from "@shared/service-areas";
+import { parseJsonArray } from "@shared/requirements";
+
+const windowBadges = {
+  NotStarted: { label: "Opening soon", className: "bg-blue-100 text-blue-700" },
+  Open: { label: "Accepting applications", className: "bg-green-100 text-green-700" },
+  Grace: { label: "Closed to new applications", className: "bg-gray-100 text-gray-700" },
+  Closed: { label: "Closed", className: "bg-gray-100 text-gray-700" },
+};
+
+export default function ProgramPage() {
+  const [, params] = useRoute("/programs/:slug");
+  const { data: program, isLoading } = useProgramBySlug(params?.slug || "");
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-20">
+        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!program) {
+    return (
+      <div className="max-w-xl mx-auto text-center py-20 space-y-4">
+        <h1 className="text-2xl font-bold">Program not found</h1>
+        <p className="text-muted-foreground">This link may be out of date. You can still browse open programs.</p>
+        <Link href="/start"><Button variant="outline">See Open Programs</Button></Link>
+      </div>
+    );
+  }
+
+  const windowStatus = getProgramWindowStatus(program, new Date());
+  const badge = windowBadges[windowStatus];
+  const deadline = getSubmissionDeadline(program);
+  const criteria = parseCriteria(program.criteria);
+  const areas = parseServiceAreas(program.serviceAreas);
+  const zipCount = parseJsonArray(program.allowedZipCodes).length;
+  const documents = parseJsonArray(program.documentRequirements);
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div className="space-y-3">
+        <Badge variant="outline" className={badge.className}>{badge.label}</Badge>
+        <h1 className="text-4xl font-display font-bold">{program.name}</h1>
+        <p className="text-lg text-muted-foreground">{program.regionLabel}</p>
+      </div>
+
+      {program.description && (
+        <Card>
+          <CardContent className="pt-6">
+            <RichText source={program.description} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg"><CheckCircle2 className="h-5 w-5" /> Who Can Apply</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          {program.eligibilityCriteria && <p className="whitespace-pre-line">{program.eligibilityCriteria}</p>}
+          {criteria.length > 0 && (
+            <ul className="list-disc pl-5 space-y-1">
+              {criteria.map((c) => <li key={describeCriterion(c)}>{describeCriterion(c)}</li>)}
+            </ul>
+          )}
+          {(areas.length > 0 || zipCount > 0) && (
+            <p className="flex items-start gap-2 text-muted-foreground">
+              <MapPin className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                Serves {[...areas.map(describeServiceArea), ...(zipCount > 0 ? [`${zipCount} listed ZIP code${zipCount === 1 ? "" : "s"}`] : [])].join(", ")}
+              </span>
+            </p>
+          )}
+          {!program.eligibilityCriteria && criteria.length === 0 && areas.length === 0 && zipCount === 0 && (
+            <p className="text-muted-foreground">Households whose income is within the program's limit.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {documents.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg"><FileText className="h-5 w-5" /> Documents You'll Need</CardTitle>
+            <CardDescription>Have these ready to upload when you apply.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="list-disc pl-5 space-y-1 text-sm">
+              {documents.map((doc) => <li key={doc}>{doc}</li>)}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg"><CalendarDays className="h-5 w-5" /> Key Dates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-2 gap-y-2 text-sm">
+            <dt className="text-muted-foreground">Applications open</dt>
+            <dd className="text-right font-medium">{format(new Date(program.effectiveStart), "MMMM d, yyyy")}</dd>
+            <dt className="text-muted-foreground">Applications close</dt>
+            <dd className="text-right font-medium">
+              {program.effectiveEnd ? format(new Date(program.effectiveEnd), "MMMM d, yyyy") : "No closing date"}
+            </dd>
+            {deadline && program.submissionGraceDays > 0 && (
+              <>
+                <dt className="text-muted-foreground">Started applications due</dt>
+                <dd className="text-right font-medium">{format(deadline, "MMMM d, yyyy")}</dd>
+              </>
+            )}
+          </dl>
+        </CardContent>
+      </Card>
+
+      {windowStatus === "Open" ? (
+        <Link href={`/start?program=${program.id}`}>
+          <Button size="lg" className="w-full text-lg h-14">
+            Apply Now <ArrowRight className="ml-2 h-5 w-5" />
+          </Button>
+        </Link>
+      ) : (
+        <Button size="lg" className="w-full text-lg h-14" disabled>
+          {windowStatus === "NotStarted" ? "Applications Not Open Yet" : "Applications Closed"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -2,29 +2,46 @@ import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { usePrograms } from "@/hooks/use-programs";
-import { useStartApplication } from "@/hooks/use-applications";
-import { useLocation } from "wouter";
+import { useStartApplication, usePrescreen } from "@/hooks/use-applications";
+import { useLocation, useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { startApplicationSchema } from "@shared/routes";
-import { Loader2, ArrowRight, ShieldCheck } from "lucide-react";
+import { startApplicationSchema, prescreenSchema } from "@shared/routes";
+import { residenceTypeOptions, propertyTypeOptions, type Program } from "@shared/schema";
+import { parseJsonArray } from "@shared/requirements";
+import { explainReason } from "@shared/explanations";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, ArrowRight, ShieldCheck, CheckCircle2, XCircle, HelpCircle } from "lucide-react";
+
+const prescreenFormSchema = prescreenSchema.omit({ annualIncomeCents: true }).extend({
+  annualIncome: z.coerce.number().min(0, "Income cannot be negative"),
+});
+
 
 export default function StartPage() {
   const [, setLocation] = useLocation();
   const { data: programs, isLoading: loadingPrograms } = usePrograms();
   const { mutate: startApp, isPending } = useStartApplication();
+  // Landing pages link here with ?program=<id> to preselect it
+  const preselectedId = Number(new URLSearchParams(useSearch()).get("program")) || undefined;
 
   const form = useForm<z.infer<typeof startApplicationSchema>>({
     resolver: zodResolver(startApplicationSchema),
     defaultValues: {
+      programId: preselectedId,
       applicantName: "",
       applicantEmail: "",
     },
   });
 
+  const handlePrescreenStart = (programId: number) => {
+    form.setValue("programId", programId);
+    document.getElementById("start-application")?.scrollIntoView({ behavior: "smooth" });
+  };
+
   const onSubmit = (data: z.infer<typeof startApplicationSchema>) => {
     startApp(data, {
       onSuccess: (res) => {
@@ -48,7 +65,9 @@ export default function StartPage() {
         </p>
       </div>
 
-      <Card className="shadow-xl border-t-4 border-t-primary">
+      <PrescreenCard programs={programs} loadingPrograms={loadingPrograms} onStart={handlePrescreenStart} />
+
+      <Card id="start-application" className="shadow-xl border-t-4 border-t-primary">
         <CardHeader>
           <CardTitle>Start New Application</CardTitle>
           <CardDescription>
@@ -66,7 +85,7 @@ export default function StartPage() {
                     <FormLabel>Select Program</FormLabel>
                     <Select 
                       onValueChange={field.onChange} 
-                      defaultValue={field.value?.toString()}
+                      value={field.value?.toString()}
                       disabled={loadingPrograms}
                     >
                       <FormControl>
@@ -146,3 +165,236 @@ export default function StartPage() {
     </div>
   );
 }
+
+function PrescreenCard({ programs, loadingPrograms, onStart }: {
+  programs: Program[] | undefined;
+  loadingPrograms: boolean;
+  onStart: (programId: number) => void;
+}) {
+  const { mutate: prescreen, data: result, isPending, reset } = usePrescreen();
+
+  const form = useForm<z.infer<typeof prescreenFormSchema>>({
+    resolver: zodResolver(prescreenFormSchema),
+    defaultValues: {
+      zip: "",
+      categoricalEnrollments: [],
+      residenceType: null,
+      propertyType: null,
+    },
+  });
+
+  const selectedProgram = programs?.find((p) => p.id === Number(form.watch("programId")));
+  const acceptedCategorical = parseJsonArray(selectedProgram?.categoricalPrograms);
+  const allowedResidenceTypes = parseJsonArray(selectedProgram?.residenceTypes);
+  const allowedPropertyTypes = parseJsonArray(selectedProgram?.propertyTypes);
+
+  const onSubmit = ({ annualIncome, ...data }: z.infer<typeof prescreenFormSchema>) => {
+    prescreen({ ...data, annualIncomeCents: Math.round(annualIncome * 100) });
+  };
+
+  const concerns = result?.results.filter((r) => r.outcome !== "Pass") ?? [];
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Not sure if you qualify?</CardTitle>
+        <CardDescription>
+          Get a quick estimate without sharing your name or email. Nothing is saved.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} onChange={() => reset()} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="programId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Program</FormLabel>
+                  <Select
+                    onValueChange={(value) => { field.onChange(value); form.setValue("categoricalEnrollments", []); reset(); }}
+                    value={field.value?.toString()}
+                    disabled={loadingPrograms}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a program..." />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {programs?.map((program) => (
+                        <SelectItem key={program.id} value={program.id.toString()}>
+                          {program.name} ({program.regionLabel})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="zip"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>ZIP Code</FormLabel>
+                    <FormControl>
+                      <Input placeholder="12345" maxLength={5} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="householdSize"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Household Size</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="annualIncome"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Annual Income ($)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step="0.01" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {(allowedResidenceTypes.length > 0 || allowedPropertyTypes.length > 0) && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="residenceType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Do you own or rent?</FormLabel>
+                      <Select onValueChange={(value) => { field.onChange(value); reset(); }} value={field.value ?? ""}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select..." />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {residenceTypeOptions.map((type) => (
+                            <SelectItem key={type} value={type}>{type}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="propertyType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Property Type</FormLabel>
+                      <Select onValueChange={(value) => { field.onChange(value); reset(); }} value={field.value ?? ""}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select..." />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {propertyTypeOptions.map((type) => (
+                            <SelectItem key={type} value={type}>{type}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            {acceptedCategorical.length > 0 && (
+              <FormField
+                control={form.control}
+                name="categoricalEnrollments"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Is anyone in your household enrolled in:</FormLabel>
+                    <div className="flex flex-wrap gap-4">
+                      {acceptedCategorical.map((enrollment) => (
+                        <label key={enrollment} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(enrollment as typeof field.value[number])}
+                            onCheckedChange={(checked) => {
+                              field.onChange(checked
+                                ? [...field.value, enrollment]
+                                : field.value.filter((e) => e !== enrollment));
+                              reset();
+                            }}
+                          />
+                          {enrollment}
+                        </label>
+                      ))}
+                    </div>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <Button type="submit" variant="outline" className="w-full" disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Check My Eligibility
+            </Button>
+          </form>
+        </Form>
+
+        {result && (
+          <div className="rounded-lg border p-4 space-y-3 bg-muted/30">
+            <div className="flex items-center gap-2 font-semibold">
+              {result.systemResult === "Eligible" && <><CheckCircle2 className="h-5 w-5 text-green-600" /> You are likely eligible</>}
+              {result.systemResult === "NotEligible" && <><XCircle className="h-5 w-5 text-red-600" /> You are likely not eligible</>}
+              {result.systemResult === "NeedsReview" && <><HelpCircle className="h-5 w-5 text-yellow-600" /> You may be eligible</>}
+            </div>
+            <dl className="grid grid-cols-2 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">Income limit for your household:</dt>
+              <dd className="text-right font-mono">
+                {result.limitCents !== null ? `$${(result.limitCents / 100).toLocaleString()}` : "N/A"}
+              </dd>
+              {result.incomeTier && (
+                <>
+                  <dt className="text-muted-foreground">Likely benefit tier:</dt>
+                  <dd className="text-right">{result.incomeTier}</dd>
+                </>
+              )}
+            </dl>
+            {concerns.length > 0 && (
+              <ul className="text-sm text-muted-foreground list-disc pl-5">
+                {concerns.map((c) => (
+                  <li key={c.rule}>{explainReason(c.reasonCode)}</li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-muted-foreground">
+              This is an estimate. Your application will be verified against your documents.
+            </p>
+            {result.systemResult !== "NotEligible" && (
+              <Button size="sm" onClick={() => onStart(form.getValues("programId"))}>
+                Start Application <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,6 +5,13 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Loader2, CheckCircle2, XCircle, Clock, AlertTriangle, FileText, ArrowLeft } from "lucide-react";
 import { Link } from "wouter";
+import { explainReason, ruleLabels } from "@shared/explanations";
+
+const outcomeIcons = {
+  Pass: { icon: CheckCircle2, color: "text-green-600" },
+  Fail: { icon: XCircle, color: "text-red-600" },
+  NeedsReview: { icon: AlertTriangle, color: "text-yellow-600" },
+};
 
 export default function StatusPage() {
   const [, params] = useRoute("/status/:token");
@@ -23,6 +30,7 @@ export default function StatusPage() {
     Draft: { icon: FileText, color: "bg-gray-100 text-gray-700", label: "Draft" },
     Submitted: { icon: Clock, color: "bg-blue-100 text-blue-700", label: "Under Review" },
     NeedsInfo: { icon: AlertTriangle, color: "bg-yellow-100 text-yellow-700", label: "Action Required" },
+    Waitlisted: { icon: Clock, color: "bg-purple-100 text-purple-700", label: "Waitlisted" },
     Approved: { icon: CheckCircle2, color: "bg-green-100 text-green-700", label: "Approved" },
     Denied: { icon: XCircle, color: "bg-red-100 text-red-700", label: "Denied" },
   };
@@ -49,6 +57,11 @@ export default function StatusPage() {
             <span className={`text-xl font-bold px-4 py-1 rounded-full ${currentStatus.color}`}>
               {currentStatus.label}
             </span>
+            {application.incomeTier && (
+              <span className="text-sm text-muted-foreground mt-3">
+                Benefit tier: <span className="font-semibold text-foreground">{application.incomeTier}</span>
+              </span>
+            )}
           </div>
 
           <div className="space-y-4">
@@ -68,6 +81,15 @@ export default function StatusPage() {
               </div>
             )}
 
+            {application.status === "Waitlisted" && (
+              <div className="text-center space-y-2">
+                <p>You appear to be eligible, but this program's funding is currently fully committed.</p>
+                <p className="text-sm text-muted-foreground">
+                  You're on the waitlist. Applications move forward in the order they were submitted as funding becomes available.
+                </p>
+              </div>
+            )}
+
             {application.status === "Approved" && (
               <div className="text-center space-y-2">
                 <p>Congratulations! You are eligible for this program.</p>
@@ -81,6 +103,30 @@ export default function StatusPage() {
               </Link>
             )}
           </div>
+
+          {application.trace && application.status !== "Draft" && (
+            <div className="space-y-3">
+              <h4 className="font-semibold">How your application was checked</h4>
+              <ul className="space-y-2">
+                {application.trace.rules.map((rule) => {
+                  const outcome = outcomeIcons[rule.outcome];
+                  const OutcomeIcon = outcome.icon;
+                  return (
+                    <li key={rule.rule} className="flex items-start gap-2 text-sm">
+                      <OutcomeIcon className={`w-4 h-4 mt-0.5 shrink-0 ${outcome.color}`} />
+                      <span>
+                        <span className="font-medium">{ruleLabels[rule.rule] || rule.rule}:</span>{" "}
+                        {explainReason(rule.reasonCode)}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+              <p className="text-xs text-muted-foreground">
+                This is the automated check from when you submitted. A reviewer makes the final decision.
+              </p>
+            </div>
+          )}
           
           <div className="pt-6 border-t text-center">
             <Link href="/" className="text-sm text-primary hover:underline flex items-center justify-center gap-1">
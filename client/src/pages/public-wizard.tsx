@@ -1,13 +1,101 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useRoute, useLocation } from "wouter";
-import { useApplicationByToken, useUpdateApplication, useSubmitApplication, useUploadDocument } from "@/hooks/use-applications";
+import {
+  useApplicationByToken, useUpdateApplication, useAutosaveApplication, useSubmitApplication, useUploadDocument,
+  useReplaceIncomeLineItems, useAutosaveIncomeLineItems, SubmissionError, SaveConflictError, SaveRejectedError
+} from "@/hooks/use-applications";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { Loader2, Check, Upload, FileText, ChevronRight, ChevronLeft, AlertCircle } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Check, Upload, FileText, ChevronRight, ChevronLeft, AlertCircle, Plus, Trash2, CloudOff } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { Checkbox } from "@/components/ui/checkbox";
+import { incomeSourceTypes, payFrequencies, residenceTypeOptions, propertyTypeOptions, type wizardSteps } from "@shared/schema";
+import { parseJsonArray, categoricalProofRequirement, getDocumentRequirements } from "@shared/requirements";
+import { getSubmissionDeadline } from "@shared/availability";
+import { api } from "@shared/routes";
+import { parseCriteria, describeCriterion, hasAgeCriterion } from "@shared/criteria";
+import {
+  currentCustomFieldValues, parseCustomFields, parseCustomFieldValues, validateCustomFieldValues, formatCustomFieldValue
+} from "@shared/custom-fields";
+import type { CustomField, CustomFieldValue, SubmissionIssue, Program } from "@shared/schema";
+import { format } from "date-fns";
+import { annualizeCents, incomeSourceLabels, type IncomeSourceType, type PayFrequency } from "@shared/income";
+
+// An income line item as edited in the form, with the amount in dollars
+interface IncomeItemDraft {
+  memberName: string;
+  sourceType: IncomeSourceType;
+  amount: string;
+  frequency: PayFrequency;
+}
+
+function toCents(amount: string) {
+  return Math.round(Number(amount) * 100);
+}
+
+function isCompleteIncomeItem(item: IncomeItemDraft) {
+  return !!item.memberName.trim() && item.amount !== "" && !isNaN(toCents(item.amount)) && toCents(item.amount) >= 0;
+}
+
+// Income rows in the shape they're saved in. Rows still being filled in are left out.
+function toIncomeLineItems(items: IncomeItemDraft[]) {
+  return items.filter(isCompleteIncomeItem).map((item) => ({
+    memberName: item.memberName.trim(),
+    sourceType: item.sourceType,
+    amountCents: toCents(item.amount),
+    frequency: item.frequency,
+  }));
+}
+
+const AUTOSAVE_DELAY_MS = 1500;
+const AUTOSAVE_RETRY_MS = 10000;
+
+type WizardStep = { id: typeof wizardSteps[number]; label: string };
+
+// Questions and assistance only appear when the program asks them
+function getWizardSteps(program: Program): WizardStep[] {
+  return [
+    { id: "contact", label: "Contact Info" },
+    { id: "household", label: "Household" },
+    ...(parseCustomFields(program.customFields).length > 0 ? [{ id: "questions" as const, label: "Additional Questions" }] : []),
+    ...(parseJsonArray(program.categoricalPrograms).length > 0 ? [{ id: "assistance" as const, label: "Assistance" }] : []),
+    { id: "income", label: "Income" },
+    { id: "documents", label: "Documents" },
+    { id: "review", label: "Review" },
+  ];
+}
+
+// The form's answers in the shape the application is saved in
+function toApplicationUpdates(formData: any) {
+  return {
+    ...formData,
+    householdSize: formData.householdSize ? Number(formData.householdSize) : null,
+    categoricalEnrollments: JSON.stringify(formData.categoricalEnrollments || []),
+    residenceType: formData.residenceType || null,
+    propertyType: formData.propertyType || null,
+    applicantDateOfBirth: formData.applicantDateOfBirth || null,
+    customFieldValues: JSON.stringify(formData.customFieldValues || {}),
+  };
+}
+
+// What autosave sends: the answers the server will accept as they stand. A half-typed
+// ZIP or household size is held back until it's valid rather than failing the whole save.
+function toAutosaveUpdates(formData: any, customFieldsJson: string | null | undefined) {
+  const updates = toApplicationUpdates(formData);
+  const customFields = parseCustomFields(customFieldsJson);
+  const values = currentCustomFieldValues(customFields, formData.customFieldValues || {});
+  updates.customFieldValues = JSON.stringify(Object.fromEntries(
+    Object.entries(values).filter(([key, value]) => !validateCustomFieldValues(customFields, { [key]: value }))
+  ));
+  const parsed = api.applications.updateByToken.input.safeParse(updates);
+  if (parsed.success) return updates;
+  const invalid = new Set(parsed.error.issues.map((issue) => issue.path[0]));
+  return Object.fromEntries(Object.entries(updates).filter(([key]) => !invalid.has(key)));
+}
 
 // Simple stepper component
 function Stepper({ currentStep, steps }: { currentStep: number; steps: string[] }) {
@@ -51,36 +139,132 @@ export default function WizardPage() {
   const [, params] = useRoute("/apply/:token");
   const token = params?.token || "";
   const [, setLocation] = useLocation();
-  const { data: application, isLoading } = useApplicationByToken(token);
+  const { data: application, isLoading, refetch } = useApplicationByToken(token);
   const { mutate: updateApp, isPending: isUpdating } = useUpdateApplication(token);
+  const { mutate: autosave } = useAutosaveApplication(token);
   const { mutate: submitApp, isPending: isSubmitting } = useSubmitApplication(token);
   const { mutate: uploadDoc, isPending: isUploading } = useUploadDocument(token);
+  const { mutate: replaceIncome, isPending: isSavingIncome } = useReplaceIncomeLineItems(token);
+  const { mutate: autosaveIncome } = useAutosaveIncomeLineItems(token);
   const { toast } = useToast();
 
   const [step, setStep] = useState(0);
   const [formData, setFormData] = useState<any>({});
+  const [incomeItems, setIncomeItems] = useState<IncomeItemDraft[]>([]);
   const [zipValidation, setZipValidation] = useState<{ valid: boolean; message: string | null } | null>(null);
+  const [documentRequirement, setDocumentRequirement] = useState<string>("");
+  const [submissionIssues, setSubmissionIssues] = useState<SubmissionIssue[]>([]);
+  // "rejected" saves failed validation and wait for the answers to change; "error" saves are retried
+  const [saveState, setSaveState] = useState<"idle" | "saving" | "saved" | "error" | "rejected">("idle");
+  const [conflict, setConflict] = useState(false);
+
+  // Loaded once; later refetches must not overwrite what the applicant is typing
+  const loadedRef = useRef(false);
+  // What the server last confirmed, to skip no-op saves and detect saves from other tabs
+  const lastSavedRef = useRef("");
+  const lastSavedIncomeRef = useRef("");
+  const expectedUpdatedAtRef = useRef<Date | null>(null);
+  // The answers and income rows of the last rejected save
+  const rejectedRef = useRef("");
+
+  const loadForm = (app: NonNullable<typeof application>) => {
+    loadedRef.current = true;
+    const loaded = {
+      addressLine1: app.addressLine1 || "",
+      city: app.city || "",
+      state: app.state || "",
+      zip: app.zip || "",
+      residenceType: app.residenceType || "",
+      propertyType: app.propertyType || "",
+      applicantPhone: app.applicantPhone || "",
+      applicantDateOfBirth: app.applicantDateOfBirth || "",
+      householdSize: app.householdSize || "",
+      categoricalEnrollments: parseJsonArray(app.categoricalEnrollments),
+      customFieldValues: parseCustomFieldValues(app.customFieldValues),
+    };
+    setFormData(loaded);
+    lastSavedRef.current = JSON.stringify(toAutosaveUpdates(loaded, app.program.customFields));
+    expectedUpdatedAtRef.current = app.updatedAt;
+    const loadedItems = app.incomeLineItems.map((item) => ({
+      memberName: item.memberName,
+      sourceType: item.sourceType,
+      amount: (item.amountCents / 100).toString(),
+      frequency: item.frequency,
+    }));
+    setIncomeItems(loadedItems);
+    lastSavedIncomeRef.current = JSON.stringify(toIncomeLineItems(loadedItems));
+
+    // Resume after the last step the applicant finished
+    const stepIds = getWizardSteps(app.program).map((s) => s.id);
+    setStep(app.lastCompletedStep ? Math.min(stepIds.indexOf(app.lastCompletedStep) + 1, stepIds.length - 1) : 0);
+  };
 
-  // Sync form data when app loads
   useEffect(() => {
-    if (application) {
-      setFormData({
-        addressLine1: application.addressLine1 || "",
-        city: application.city || "",
-        state: application.state || "",
-        zip: application.zip || "",
-        applicantPhone: application.applicantPhone || "",
-        householdSize: application.householdSize || "",
-        annualIncomeCents: application.annualIncomeCents ? application.annualIncomeCents / 100 : "",
-      });
-      
-      // If already submitted, redirect to status
-      if (application.status !== "Draft" && application.status !== "NeedsInfo") {
-        setLocation(`/status/${token}`);
-      }
+    if (!application) return;
+    if (!loadedRef.current) loadForm(application);
+
+    // If already submitted, redirect to status
+    if (application.status !== "Draft" && application.status !== "NeedsInfo") {
+      setLocation(`/status/${token}`);
     }
   }, [application, token, setLocation]);
 
+  // Saves the answers if they changed, otherwise the income rows. One save runs at a
+  // time so each carries the updatedAt the last one returned; the effect below
+  // follows up with the other once this one lands.
+  const saveDraft = ({ overwrite = false } = {}) => {
+    const expectedUpdatedAt = overwrite ? undefined : expectedUpdatedAtRef.current ?? undefined;
+    const handlers = (markSaved: () => void) => ({
+      onSuccess: (updated: { updatedAt: Date | null }) => {
+        markSaved();
+        expectedUpdatedAtRef.current = updated.updatedAt;
+        setSaveState("saved");
+        setConflict(false);
+      },
+      onError: (error: Error) => {
+        if (error instanceof SaveConflictError) setConflict(true);
+        if (error instanceof SaveRejectedError) rejectedRef.current = pendingSave();
+        setSaveState(error instanceof SaveRejectedError ? "rejected" : "error");
+      },
+    });
+    setSaveState("saving");
+
+    const updates = toAutosaveUpdates(formData, application?.program.customFields);
+    const saved = JSON.stringify(updates);
+    if (overwrite || saved !== lastSavedRef.current) {
+      autosave({ ...updates, expectedUpdatedAt }, handlers(() => { lastSavedRef.current = saved; }));
+      return;
+    }
+    const items = toIncomeLineItems(incomeItems);
+    const savedItems = JSON.stringify(items);
+    autosaveIncome({ items, expectedUpdatedAt }, handlers(() => { lastSavedIncomeRef.current = savedItems; }));
+  };
+
+  const pendingSave = () => JSON.stringify([
+    toAutosaveUpdates(formData, application?.program.customFields), toIncomeLineItems(incomeItems),
+  ]);
+
+  // Save shortly after the applicant stops typing; after a failed save, retry more slowly.
+  // Paused while another save is in flight and while a conflict is unresolved. A save
+  // the server rejected isn't retried until the answers change.
+  useEffect(() => {
+    if (!loadedRef.current || conflict || isUpdating || isSavingIncome || saveState === "saving") return;
+    if (
+      JSON.stringify(toAutosaveUpdates(formData, application?.program.customFields)) === lastSavedRef.current
+      && JSON.stringify(toIncomeLineItems(incomeItems)) === lastSavedIncomeRef.current
+    ) return;
+    if (saveState === "rejected" && pendingSave() === rejectedRef.current) return;
+    const timer = setTimeout(() => saveDraft(), saveState === "error" ? AUTOSAVE_RETRY_MS : AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [formData, incomeItems, conflict, isUpdating, isSavingIncome, saveState]);
+
+  const reloadLatest = async () => {
+    const { data } = await refetch();
+    if (data) loadForm(data);
+    setConflict(false);
+    setSaveState("idle");
+  };
+
   if (isLoading || !application) {
     return (
       <div className="flex items-center justify-center min-h-[50vh]">
@@ -89,46 +273,148 @@ export default function WizardPage() {
     );
   }
 
+  const acceptedCategorical = parseJsonArray(application.program.categoricalPrograms);
+  const criteria = parseCriteria(application.program.criteria);
+  const asksDateOfBirth = hasAgeCriterion(criteria);
+  const customFields = parseCustomFields(application.program.customFields);
+  const submissionDeadline = getSubmissionDeadline(application.program);
+  // Only offer the residence and property types the program serves
+  const programResidenceTypes = parseJsonArray(application.program.residenceTypes);
+  const programPropertyTypes = parseJsonArray(application.program.propertyTypes);
+  const residenceChoices = programResidenceTypes.length > 0 ? programResidenceTypes : [...residenceTypeOptions];
+  const propertyChoices = programPropertyTypes.length > 0 ? programPropertyTypes : [...propertyTypeOptions];
+  const steps = getWizardSteps(application.program);
+  const currentStep = steps[step].id;
+
+  // Moves past the current step once its answers are saved, remembering it for a later resume
+  const completeStep = (updatedAt: Date | null) => {
+    expectedUpdatedAtRef.current = updatedAt;
+    // Answers on this step were just saved; the next submit rechecks them
+    setSubmissionIssues(submissionIssues.filter((issue) => issue.step !== currentStep));
+    setStep(s => s + 1);
+  };
+
+  const onSaveError = (error: Error) => {
+    if (error instanceof SaveConflictError) setConflict(true);
+  };
+
   const handleNext = () => {
     // Basic validation
-    if (step === 0 && (!formData.addressLine1 || !formData.city || !formData.state || !formData.zip)) {
+    if (currentStep === "contact" && (!formData.addressLine1 || !formData.city || !formData.state || !formData.zip)) {
       toast({ title: "Please fill in all address fields", variant: "destructive" });
       return;
     }
-    if (step === 1 && !formData.householdSize) {
+    if (currentStep === "contact" && (!formData.residenceType || !formData.propertyType)) {
+      toast({ title: "Please select your residence and property type", variant: "destructive" });
+      return;
+    }
+    if (currentStep === "contact" && asksDateOfBirth && !formData.applicantDateOfBirth) {
+      toast({ title: "Please enter your date of birth", variant: "destructive" });
+      return;
+    }
+    if (currentStep === "household" && !formData.householdSize) {
       toast({ title: "Please enter household size", variant: "destructive" });
       return;
     }
-    if (step === 2 && !formData.annualIncomeCents) {
-      toast({ title: "Please enter annual income", variant: "destructive" });
+    if (currentStep === "questions") {
+      const error = validateCustomFieldValues(
+        customFields, currentCustomFieldValues(customFields, formData.customFieldValues), { requireAll: true }
+      );
+      if (error) {
+        toast({ title: error.message, variant: "destructive" });
+        return;
+      }
+    }
+    if (currentStep === "income") {
+      if (incomeItems.length === 0) {
+        toast({ title: "Please add at least one income source", description: "Enter $0 if your household has no income.", variant: "destructive" });
+        return;
+      }
+      if (!incomeItems.every(isCompleteIncomeItem)) {
+        toast({ title: "Please complete every income source", variant: "destructive" });
+        return;
+      }
+      const items = toIncomeLineItems(incomeItems);
+      replaceIncome({ items, expectedUpdatedAt: expectedUpdatedAtRef.current ?? undefined }, {
+        onError: onSaveError,
+        onSuccess: ({ updatedAt }) => {
+          lastSavedIncomeRef.current = JSON.stringify(items);
+          updateApp(
+            { lastCompletedStep: "income", expectedUpdatedAt: updatedAt ?? undefined },
+            { onSuccess: (updated) => completeStep(updated.updatedAt), onError: onSaveError }
+          );
+        },
+      });
       return;
     }
 
     // Save current state
-    const updates = { ...formData };
-    if (updates.householdSize) updates.householdSize = Number(updates.householdSize);
-    if (updates.annualIncomeCents) updates.annualIncomeCents = Math.round(Number(updates.annualIncomeCents) * 100);
-
-    updateApp(updates, {
-      onSuccess: () => setStep(s => s + 1),
+    const updates = toApplicationUpdates(formData);
+    updateApp({ ...updates, lastCompletedStep: currentStep, expectedUpdatedAt: expectedUpdatedAtRef.current ?? undefined }, {
+      onSuccess: (updated) => {
+        lastSavedRef.current = JSON.stringify(toAutosaveUpdates(formData, application.program.customFields));
+        completeStep(updated.updatedAt);
+      },
+      onError: onSaveError,
     });
   };
 
   const handleSubmit = () => {
     submitApp(undefined, {
-      onSuccess: () => setLocation(`/status/${token}`),
+      onSuccess: (res) => {
+        if (res.missingDocuments.length > 0) {
+          toast({
+            title: "Documents still needed",
+            description: `A reviewer will follow up about: ${res.missingDocuments.join(", ")}`,
+          });
+        }
+        setLocation(`/status/${token}`);
+      },
+      onError: (error) => {
+        if (!(error instanceof SubmissionError) || error.issues.length === 0) return;
+        setSubmissionIssues(error.issues);
+        // Send the applicant back to the first step with a problem
+        const target = steps.findIndex((s) => error.issues.some((issue) => issue.step === s.id));
+        if (target >= 0) setStep(target);
+      },
+    });
+  };
+
+  const stepIssues = currentStep === "review"
+    ? submissionIssues
+    : submissionIssues.filter((issue) => issue.step === currentStep);
+
+  const documentRequirements = getDocumentRequirements(application.program, application);
+  const uploadedRequirements = new Set(application.documents.map((doc) => doc.requirement).filter(Boolean));
+
+  const uploadFile = (file: File, requirement: string) => {
+    const data = new FormData();
+    data.append("file", file);
+    if (requirement) data.append("requirement", requirement);
+    uploadDoc(data, {
+      onSuccess: () => setDocumentRequirement(""),
     });
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      const data = new FormData();
-      data.append("file", file);
-      uploadDoc(data);
+      if (documentRequirements.length > 0 && !documentRequirement) {
+        toast({ title: "Please choose which document you are uploading", variant: "destructive" });
+        e.target.value = "";
+        return;
+      }
+      uploadFile(e.target.files[0], documentRequirement);
+      e.target.value = "";
     }
   };
 
+  // Claims are autosaved like any other answer, so proof can be uploaded against them
+  const toggleEnrollment = (enrollment: string, checked: boolean) => {
+    const current: string[] = formData.categoricalEnrollments || [];
+    const next = checked ? [...current, enrollment] : current.filter((e) => e !== enrollment);
+    setFormData({ ...formData, categoricalEnrollments: next });
+  };
+
   const handleZipBlur = async () => {
     if (formData.zip && formData.zip.length === 5 && application) {
       try {
@@ -149,25 +435,125 @@ export default function WizardPage() {
     }
   };
 
-  const steps = ["Contact Info", "Household", "Income", "Documents", "Review"];
+  const setCustomValue = (key: string, value: CustomFieldValue) => {
+    setFormData({ ...formData, customFieldValues: { ...formData.customFieldValues, [key]: value } });
+  };
+
+  const renderCustomField = (field: CustomField) => {
+    const value = formData.customFieldValues?.[field.key];
+    switch (field.type) {
+      case "Select":
+        return (
+          <Select value={typeof value === "string" ? value : ""} onValueChange={(v) => setCustomValue(field.key, v)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select..." />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options.map((option) => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        );
+      case "Checkbox":
+        return (
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={value === true} onCheckedChange={(checked) => setCustomValue(field.key, checked === true)} />
+            Yes
+          </label>
+        );
+      case "Number":
+        return (
+          <Input
+            type="number"
+            value={typeof value === "number" ? value : ""}
+            onChange={(e) => setCustomValue(field.key, e.target.value === "" ? null : Number(e.target.value))}
+          />
+        );
+      default:
+        return (
+          <Input
+            type={field.type === "Date" ? "date" : "text"}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => setCustomValue(field.key, e.target.value)}
+          />
+        );
+    }
+  };
+
+  const updateIncomeItem = (index: number, changes: Partial<IncomeItemDraft>) => {
+    setIncomeItems(incomeItems.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const annualizedItem = (item: IncomeItemDraft) =>
+    item.amount === "" || isNaN(Number(item.amount)) ? 0 : annualizeCents(toCents(item.amount), item.frequency);
+  const totalIncomeCents = incomeItems.reduce((sum, item) => sum + annualizedItem(item), 0);
+
 
   return (
     <div className="max-w-2xl mx-auto">
       <div className="mb-8 text-center">
         <h1 className="text-3xl font-display font-bold mb-2">Application for {application.program?.name}</h1>
         <p className="text-muted-foreground">ID: #{application.id}</p>
+        {submissionDeadline && (
+          <p className="text-sm text-muted-foreground mt-1">
+            Submit by {format(submissionDeadline, "MMMM d, yyyy")}
+          </p>
+        )}
       </div>
 
-      <Stepper currentStep={step} steps={steps} />
+      <Stepper currentStep={step} steps={steps.map((s) => s.label)} />
 
       <Card className="shadow-lg border-t-4 border-t-primary min-h-[400px] flex flex-col">
-        <CardHeader>
-          <CardTitle className="text-2xl">{steps[step]}</CardTitle>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-2xl">{steps[step].label}</CardTitle>
+          <span className="text-xs text-muted-foreground flex items-center gap-1">
+            {saveState === "saving" && <><Loader2 className="h-3 w-3 animate-spin" /> Saving…</>}
+            {saveState === "saved" && <><Check className="h-3 w-3" /> Saved</>}
+            {saveState === "error" && !conflict && <><CloudOff className="h-3 w-3" /> Not saved, retrying</>}
+            {saveState === "rejected" && <><CloudOff className="h-3 w-3" /> Not saved, check your answers</>}
+          </span>
         </CardHeader>
         <CardContent className="flex-1 space-y-6">
-          {/* Step 0: Contact Info */}
-          {step === 0 && (
+          {conflict && (
+            <div className="bg-amber-50 border border-amber-200 rounded-md p-4 text-sm text-amber-800 space-y-3">
+              <p className="flex items-start gap-2">
+                <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                This application was changed in another window or tab. Load the latest version, or keep what
+                you've entered here and replace it.
+              </p>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={reloadLatest}>Load Latest</Button>
+                <Button size="sm" variant="ghost" onClick={() => saveDraft({ overwrite: true })}>Keep My Changes</Button>
+              </div>
+            </div>
+          )}
+
+          {stepIssues.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-700 space-y-1">
+              <p className="font-medium flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" /> Please fix the following before submitting
+              </p>
+              <ul className="list-disc pl-5">
+                {stepIssues.map((issue) => <li key={issue.field}>{issue.message}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {/* Contact Info */}
+          {currentStep === "contact" && (
             <div className="space-y-4 animate-in fade-in slide-in-from-right-4 duration-300">
+              {(application.program.eligibilityCriteria || criteria.length > 0) && (
+                <div className="bg-muted/30 border rounded-md p-4 text-sm space-y-2">
+                  <p className="font-semibold">Who can apply</p>
+                  {application.program.eligibilityCriteria && (
+                    <p className="text-muted-foreground whitespace-pre-line">{application.program.eligibilityCriteria}</p>
+                  )}
+                  {criteria.length > 0 && (
+                    <ul className="list-disc pl-5 text-muted-foreground">
+                      {criteria.map((c) => <li key={describeCriterion(c)}>{describeCriterion(c)}</li>)}
+                    </ul>
+                  )}
+                </div>
+              )}
               <div className="grid gap-2">
                 <Label>Address Line 1</Label>
                 <Input 
@@ -227,11 +613,58 @@ export default function WizardPage() {
                   />
                 </div>
               </div>
+              {asksDateOfBirth && (
+                <div className="grid gap-2">
+                  <Label>Date of Birth</Label>
+                  <Input
+                    type="date"
+                    value={formData.applicantDateOfBirth}
+                    onChange={e => setFormData({...formData, applicantDateOfBirth: e.target.value})}
+                  />
+                  <p className="text-xs text-muted-foreground">This program has an age requirement.</p>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label>Residence Type</Label>
+                  <Select value={formData.residenceType} onValueChange={(value) => setFormData({...formData, residenceType: value})}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Own or rent?" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {residenceChoices.map((type) => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {formData.residenceType === "Rent" && (
+                    <p className="text-xs text-muted-foreground">Renters will need to upload a signed landlord consent form.</p>
+                  )}
+                </div>
+                <div className="grid gap-2">
+                  <Label>Property Type</Label>
+                  <Select value={formData.propertyType} onValueChange={(value) => setFormData({...formData, propertyType: value})}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select property type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {propertyChoices.map((type) => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {(programResidenceTypes.length > 0 || programPropertyTypes.length > 0) && (
+                <p className="text-sm text-muted-foreground">
+                  This program is limited to: {[...programResidenceTypes, ...programPropertyTypes].join(", ")}.
+                </p>
+              )}
             </div>
           )}
 
-          {/* Step 1: Household */}
-          {step === 1 && (
+          {/* Household */}
+          {currentStep === "household" && (
             <div className="space-y-4 animate-in fade-in slide-in-from-right-4 duration-300">
               <div className="grid gap-2">
                 <Label>Household Size</Label>
@@ -248,28 +681,187 @@ export default function WizardPage() {
             </div>
           )}
 
-          {/* Step 2: Income */}
-          {step === 2 && (
+          {/* Program-specific questions */}
+          {currentStep === "questions" && (
             <div className="space-y-4 animate-in fade-in slide-in-from-right-4 duration-300">
-               <div className="grid gap-2">
-                <Label>Total Annual Income ($)</Label>
-                <Input 
-                  type="number" 
-                  min="0"
-                  step="0.01"
-                  value={formData.annualIncomeCents} 
-                  onChange={e => setFormData({...formData, annualIncomeCents: e.target.value})} 
-                  placeholder="e.g. 45000"
-                  className="text-lg p-6 font-mono"
-                />
-                <p className="text-sm text-muted-foreground">Gross income before taxes for all household members.</p>
+              {customFields.map((field) => (
+                <div key={field.key} className="grid gap-2">
+                  <Label>{field.label}{field.required && <span className="text-red-600"> *</span>}</Label>
+                  {renderCustomField(field)}
+                  {field.helpText && <p className="text-xs text-muted-foreground">{field.helpText}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Assistance Programs */}
+          {currentStep === "assistance" && (
+            <div className="space-y-4 animate-in fade-in slide-in-from-right-4 duration-300">
+              <p className="text-sm text-muted-foreground">
+                Households enrolled in any of these programs qualify regardless of income. Check each one you are
+                currently enrolled in and upload proof, such as an award letter or benefits card.
+              </p>
+              {acceptedCategorical.map((enrollment) => {
+                const claimed = (formData.categoricalEnrollments || []).includes(enrollment);
+                const proof = categoricalProofRequirement(enrollment);
+                return (
+                  <div key={enrollment} className="border rounded-lg p-4 space-y-3">
+                    <div className="flex items-center gap-3">
+                      <Checkbox
+                        id={`enrollment-${enrollment}`}
+                        checked={claimed}
+                        onCheckedChange={(checked) => toggleEnrollment(enrollment, checked === true)}
+                        disabled={isUpdating}
+                      />
+                      <Label htmlFor={`enrollment-${enrollment}`} className="font-medium">{enrollment}</Label>
+                    </div>
+                    {claimed && (
+                      <div className="flex items-center justify-between gap-2 pl-7 text-sm">
+                        {uploadedRequirements.has(proof) ? (
+                          <span className="flex items-center gap-2 text-green-700"><Check className="w-4 h-4" /> {proof} uploaded</span>
+                        ) : (
+                          <span className="flex items-center gap-2 text-muted-foreground"><AlertCircle className="w-4 h-4" /> {proof} needed</span>
+                        )}
+                        <input
+                          type="file"
+                          id={`proof-${enrollment}`}
+                          className="hidden"
+                          disabled={isUploading}
+                          onChange={(e) => {
+                            if (e.target.files?.[0]) uploadFile(e.target.files[0], proof);
+                            e.target.value = "";
+                          }}
+                        />
+                        <Button variant="outline" size="sm" asChild disabled={isUploading}>
+                          <label htmlFor={`proof-${enrollment}`} className="cursor-pointer">
+                            {isUploading ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Upload className="h-4 w-4 mr-1" />}
+                            Upload Proof
+                          </label>
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              <p className="text-sm text-muted-foreground">Not enrolled in any of these? Continue to enter your income.</p>
+            </div>
+          )}
+
+          {/* Income */}
+          {currentStep === "income" && (
+            <div className="space-y-4 animate-in fade-in slide-in-from-right-4 duration-300">
+              <p className="text-sm text-muted-foreground">
+                List each source of gross income (before taxes) for every household member, as it is paid.
+              </p>
+              {incomeItems.map((item, index) => (
+                <div key={index} className="border rounded-lg p-4 space-y-3">
+                  <div className="grid gap-3 md:grid-cols-2">
+                    <div className="grid gap-2">
+                      <Label>Household Member</Label>
+                      <Input
+                        value={item.memberName}
+                        onChange={e => updateIncomeItem(index, { memberName: e.target.value })}
+                        placeholder="e.g. Jane Doe"
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label>Source</Label>
+                      <Select value={item.sourceType} onValueChange={(value) => updateIncomeItem(index, { sourceType: value as IncomeSourceType })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {incomeSourceTypes.map((type) => (
+                            <SelectItem key={type} value={type}>{incomeSourceLabels[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid gap-2">
+                      <Label>Amount per Payment ($)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={item.amount}
+                        onChange={e => updateIncomeItem(index, { amount: e.target.value })}
+                        placeholder="e.g. 1200"
+                        className="font-mono"
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label>How Often</Label>
+                      <Select value={item.frequency} onValueChange={(value) => updateIncomeItem(index, { frequency: value as PayFrequency })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {payFrequencies.map((frequency) => (
+                            <SelectItem key={frequency} value={frequency}>{frequency}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground font-mono">
+                      ${(annualizedItem(item) / 100).toLocaleString()} / year
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => setIncomeItems(incomeItems.filter((_, i) => i !== index))}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                onClick={() => setIncomeItems([
+                  ...incomeItems,
+                  { memberName: incomeItems[0]?.memberName ?? application.applicantName, sourceType: "Wages", amount: "", frequency: "Monthly" },
+                ])}
+              >
+                <Plus className="h-4 w-4 mr-2" /> Add Income Source
+              </Button>
+              <div className="flex justify-between border-t pt-4 font-medium">
+                <span>Total Annual Income</span>
+                <span className="font-mono">${(totalIncomeCents / 100).toLocaleString()}</span>
               </div>
             </div>
           )}
 
-          {/* Step 3: Documents */}
-          {step === 3 && (
+          {/* Documents */}
+          {currentStep === "documents" && (
             <div className="space-y-4 animate-in fade-in slide-in-from-right-4 duration-300">
+              {documentRequirements.length > 0 && (
+                <>
+                  <div className="space-y-2">
+                    <h4 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">Required Documents</h4>
+                    {documentRequirements.map((req) => (
+                      <div key={req} className="flex items-center gap-2 text-sm">
+                        {uploadedRequirements.has(req) ? (
+                          <Check className="w-4 h-4 text-green-600" />
+                        ) : (
+                          <AlertCircle className="w-4 h-4 text-muted-foreground" />
+                        )}
+                        <span className={cn(uploadedRequirements.has(req) && "text-muted-foreground")}>{req}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="grid gap-2">
+                    <Label>Document Type</Label>
+                    <Select value={documentRequirement} onValueChange={setDocumentRequirement}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Which document are you uploading?" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {documentRequirements.map((req) => (
+                          <SelectItem key={req} value={req}>{req}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
               <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center bg-muted/5 hover:bg-muted/10 transition-colors">
                 <input 
                   type="file" 
@@ -290,10 +882,13 @@ export default function WizardPage() {
               {application.documents && application.documents.length > 0 && (
                 <div className="space-y-2 mt-4">
                   <h4 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">Uploaded Files</h4>
-                  {application.documents.map((doc: any) => (
+                  {application.documents.map((doc) => (
                     <div key={doc.id} className="flex items-center p-3 bg-card border rounded-md shadow-sm">
                       <FileText className="w-5 h-5 text-blue-500 mr-3" />
                       <span className="flex-1 truncate font-medium">{doc.filename}</span>
+                      {doc.requirement && (
+                        <span className="text-xs text-primary bg-primary/10 px-2 py-1 rounded mr-2">{doc.requirement}</span>
+                      )}
                       <span className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded">
                         {(doc.sizeBytes / 1024).toFixed(1)} KB
                       </span>
@@ -304,8 +899,8 @@ export default function WizardPage() {
             </div>
           )}
 
-          {/* Step 4: Review */}
-          {step === 4 && (
+          {/* Review */}
+          {currentStep === "review" && (
             <div className="space-y-6 animate-in fade-in slide-in-from-right-4 duration-300">
               <div className="bg-primary/5 p-4 rounded-lg border border-primary/10 flex gap-3">
                 <AlertCircle className="w-5 h-5 text-primary shrink-0 mt-0.5" />
@@ -321,15 +916,46 @@ export default function WizardPage() {
                 
                 <div className="text-muted-foreground">Address</div>
                 <div className="font-medium text-right">{formData.addressLine1}, {formData.city}, {formData.state} {formData.zip}</div>
+
+                <div className="text-muted-foreground">Residence</div>
+                <div className="font-medium text-right">{formData.residenceType} · {formData.propertyType}</div>
                 
                 <div className="text-muted-foreground">Household Size</div>
                 <div className="font-medium text-right">{formData.householdSize} members</div>
+
+                {customFields.map((field) => (
+                  <div key={field.key} className="contents">
+                    <div className="text-muted-foreground">{field.label}</div>
+                    <div className="font-medium text-right">
+                      {formatCustomFieldValue(field, formData.customFieldValues?.[field.key]) || "—"}
+                    </div>
+                  </div>
+                ))}
+
+                {formData.categoricalEnrollments?.length > 0 && (
+                  <>
+                    <div className="text-muted-foreground">Enrolled In</div>
+                    <div className="font-medium text-right">{formData.categoricalEnrollments.join(", ")}</div>
+                  </>
+                )}
                 
                 <div className="text-muted-foreground">Annual Income</div>
-                <div className="font-medium text-right font-mono">${Number(formData.annualIncomeCents).toLocaleString()}</div>
+                <div className="font-medium text-right font-mono">
+                  ${(totalIncomeCents / 100).toLocaleString()}
+                  <div className="text-xs text-muted-foreground font-sans">
+                    {incomeItems.length} income source{incomeItems.length === 1 ? "" : "s"}
+                  </div>
+                </div>
                 
                 <div className="text-muted-foreground">Documents</div>
-                <div className="font-medium text-right">{application.documents?.length || 0} files attached</div>
+                <div className="font-medium text-right">
+                  {application.documents?.length || 0} files attached
+                  {documentRequirements.length > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      {documentRequirements.filter((req) => uploadedRequirements.has(req)).length} of {documentRequirements.length} required
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
           )}
@@ -344,12 +970,12 @@ export default function WizardPage() {
           </Button>
 
           {step < steps.length - 1 ? (
-            <Button onClick={handleNext} disabled={isUpdating}>
-              {isUpdating ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+            <Button onClick={handleNext} disabled={isUpdating || isSavingIncome || saveState === "saving" || conflict}>
+              {isUpdating || isSavingIncome ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
               Next Step <ChevronRight className="ml-2 h-4 w-4" />
             </Button>
           ) : (
-            <Button onClick={handleSubmit} disabled={isSubmitting} className="bg-green-600 hover:bg-green-700">
+            <Button onClick={handleSubmit} disabled={isSubmitting || saveState === "saving" || conflict} className="bg-green-600 hover:bg-green-700">
               {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Check className="h-4 w-4 mr-2" />}
               Submit Application
             </Button>
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useAmiTables, useAmiTable, useCreateAmiTable, useCreateAmiArea, useDeleteAmiArea } from "@/hooks/use-ami-tables";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Sheet, SheetContent, SheetTitle } from "@/components/ui/sheet";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { ZipCodeInput } from "@/components/zip-code-input";
+import { useToast } from "@/hooks/use-toast";
+
+const HOUSEHOLD_SIZES = [1, 2, 3, 4, 5, 6, 7, 8];
+
+export default function ReviewerAmiTables() {
+  const { data: tables, isLoading } = useAmiTables();
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [selectedTableId, setSelectedTableId] = useState<number | null>(null);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-display font-bold">AMI Tables</h1>
+          <p className="text-muted-foreground">Area Median Income datasets used by AMI-based programs.</p>
+        </div>
+        <CreateAmiTableDialog open={createDialogOpen} onOpenChange={setCreateDialogOpen} />
+      </div>
+
+      <div className="bg-card rounded-xl border shadow-sm overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50">
+              <TableHead className="w-[80px]">ID</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Dataset Version</TableHead>
+              <TableHead>Created</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-10">
+                  <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+                </TableCell>
+              </TableRow>
+            ) : tables?.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-10 text-muted-foreground">
+                  No AMI tables yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              tables?.map((table) => (
+                <TableRow
+                  key={table.id}
+                  className="hover:bg-muted/5 cursor-pointer"
+                  onClick={() => setSelectedTableId(table.id)}
+                >
+                  <TableCell className="font-mono text-muted-foreground">#{table.id}</TableCell>
+                  <TableCell className="font-medium">{table.name}</TableCell>
+                  <TableCell className="font-mono">{table.datasetVersion}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {table.createdAt && format(new Date(table.createdAt), "MMM d, yyyy")}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <AmiTableSheet
+        tableId={selectedTableId}
+        open={!!selectedTableId}
+        onClose={() => setSelectedTableId(null)}
+      />
+    </div>
+  );
+}
+
+function CreateAmiTableDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { mutate: createTable, isPending } = useCreateAmiTable();
+  const [name, setName] = useState("");
+  const [datasetVersion, setDatasetVersion] = useState("");
+
+  const handleCreate = () => {
+    if (!name.trim() || !datasetVersion.trim()) return;
+    createTable({ name: name.trim(), datasetVersion: datasetVersion.trim() }, {
+      onSuccess: () => {
+        onOpenChange(false);
+        setName("");
+        setDatasetVersion("");
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="mr-2 h-4 w-4" /> New AMI Table
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Create AMI Table</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid gap-2">
+            <Label>Name</Label>
+            <Input placeholder="HUD Median Family Income" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="grid gap-2">
+            <Label>Dataset Version</Label>
+            <Input placeholder="HUD-FY2024" value={datasetVersion} onChange={(e) => setDatasetVersion(e.target.value)} />
+          </div>
+          <Button className="w-full" onClick={handleCreate} disabled={isPending || !name.trim() || !datasetVersion.trim()}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create Table
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function AmiTableSheet({ tableId, open, onClose }: { tableId: number | null; open: boolean; onClose: () => void }) {
+  const { data: table, isLoading } = useAmiTable(tableId || 0);
+  const { mutate: createArea, isPending } = useCreateAmiArea();
+  const { mutate: deleteArea } = useDeleteAmiArea();
+  const { toast } = useToast();
+
+  const [areaName, setAreaName] = useState("");
+  const [zipCodes, setZipCodes] = useState<string[]>([]);
+  const [medianIncomes, setMedianIncomes] = useState<Record<number, string>>({});
+
+  if (!open || !tableId) return null;
+
+  const handleAddArea = () => {
+    const incomes = HOUSEHOLD_SIZES
+      .filter((size) => medianIncomes[size])
+      .map((size) => ({ householdSize: size, medianIncomeCents: Math.round(parseFloat(medianIncomes[size]) * 100) }));
+
+    if (!areaName.trim()) {
+      toast({ title: "Area name required", variant: "destructive" });
+      return;
+    }
+    if (incomes.length === 0 || incomes.some((i) => isNaN(i.medianIncomeCents) || i.medianIncomeCents < 0)) {
+      toast({ title: "Invalid median incomes", description: "Enter at least one valid dollar amount", variant: "destructive" });
+      return;
+    }
+
+    createArea({ tableId, data: { areaName: areaName.trim(), zipCodes, incomes } }, {
+      onSuccess: () => {
+        setAreaName("");
+        setZipCodes([]);
+        setMedianIncomes({});
+      },
+    });
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onClose}>
+      <SheetContent className="w-full sm:max-w-2xl p-0 flex flex-col h-full bg-background overflow-hidden">
+        {isLoading || !table ? (
+          <div className="h-full flex items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="px-6 py-4 border-b">
+              <SheetTitle className="text-xl">{table.name}</SheetTitle>
+              <p className="text-sm text-muted-foreground font-mono">{table.datasetVersion}</p>
+            </div>
+
+            <ScrollArea className="flex-1">
+              <div className="px-6 py-6 space-y-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Area</TableHead>
+                      <TableHead>ZIP Codes</TableHead>
+                      <TableHead>Median Income by Size ($)</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {table.areas.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                          No areas added yet.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      table.areas.map((area) => (
+                        <TableRow key={area.id}>
+                          <TableCell className="font-medium">{area.areaName}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground max-w-[160px]">
+                            {JSON.parse(area.zipCodes || "[]").join(", ")}
+                          </TableCell>
+                          <TableCell className="text-xs font-mono">
+                            {[...area.incomes]
+                              .sort((a, b) => a.householdSize - b.householdSize)
+                              .map((i) => `${i.householdSize}: $${(i.medianIncomeCents / 100).toLocaleString()}`)
+                              .join(" · ")}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" onClick={() => deleteArea({ tableId, areaId: area.id })}>
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+
+                <div className="border rounded-lg p-4 space-y-4 bg-muted/20">
+                  <h3 className="font-semibold">Add Area</h3>
+                  <div className="grid gap-2">
+                    <Label>Area Name</Label>
+                    <Input placeholder="Kings County, NY" value={areaName} onChange={(e) => setAreaName(e.target.value)} />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label>ZIP Codes</Label>
+                    <ZipCodeInput value={zipCodes} onChange={setZipCodes} />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label>Median Income by Household Size ($)</Label>
+                    <div className="grid grid-cols-4 gap-2">
+                      {HOUSEHOLD_SIZES.map((size) => (
+                        <Input
+                          key={size}
+                          type="number"
+                          step="0.01"
+                          placeholder={`Size ${size}`}
+                          value={medianIncomes[size] || ""}
+                          onChange={(e) => setMedianIncomes({ ...medianIncomes, [size]: e.target.value })}
+                          className="h-8"
+                        />
+                      ))}
+                    </div>
+                  </div>
+                  <Button onClick={handleAddArea} disabled={isPending}>
+                    {isPending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Plus className="h-4 w-4 mr-1" />}
+                    Add Area
+                  </Button>
+                </div>
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,5 +1,9 @@
 import { useState } from "react";
 import { useApplications, useApplication, useApplicationDecision } from "@/hooks/use-applications";
+import { usePrograms, useProgramCapacities } from "@/hooks/use-programs";
+import { CapacitySummary } from "@/components/funding-panel";
+import { hasFundingCap } from "@shared/capacity";
+import { parseCustomFields, parseCustomFieldValues, formatCustomFieldValue } from "@shared/custom-fields";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -11,7 +15,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Loader2, Search, Filter, FileText, CheckCircle, XCircle, AlertCircle, Calendar } from "lucide-react";
 import { format } from "date-fns";
-import { applicationStatuses } from "@shared/schema";
+import { applicationStatuses, type EligibilityTrace, type TraceValue } from "@shared/schema";
+import { ruleLabels } from "@shared/explanations";
+import { annualizeCents, incomeSourceLabels } from "@shared/income";
+import { getDocumentRequirements, getClaimedCategoricalPrograms } from "@shared/requirements";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 
 function StatusBadge({ status }: { status: string }) {
@@ -19,12 +26,99 @@ function StatusBadge({ status }: { status: string }) {
     Draft: "bg-gray-100 text-gray-700 hover:bg-gray-200",
     Submitted: "bg-blue-100 text-blue-700 hover:bg-blue-200",
     NeedsInfo: "bg-yellow-100 text-yellow-700 hover:bg-yellow-200",
+    Waitlisted: "bg-purple-100 text-purple-700 hover:bg-purple-200",
     Approved: "bg-green-100 text-green-700 hover:bg-green-200",
     Denied: "bg-red-100 text-red-700 hover:bg-red-200",
   };
   return <Badge className={styles[status] || ""} variant="outline">{status}</Badge>;
 }
 
+// "annualIncomeCents" -> "Annual income"
+function traceKeyLabel(key: string) {
+  const words = key.replace(/Cents$/, "").replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatTraceValue(key: string, value: TraceValue) {
+  if (value === null) return "—";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "None";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "number" && key.endsWith("Cents")) return `$${(value / 100).toLocaleString()}`;
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) return format(new Date(value), "MMM d, yyyy");
+  return String(value);
+}
+
+const outcomeStyles: Record<string, string> = {
+  Pass: "bg-green-100 text-green-700",
+  Fail: "bg-red-100 text-red-700",
+  NeedsReview: "bg-yellow-100 text-yellow-800",
+};
+
+function CalculationBreakdown({ trace }: { trace: EligibilityTrace }) {
+  return (
+    <div>
+      <h3 className="font-semibold mb-1">Calculation Breakdown</h3>
+      <p className="text-xs text-muted-foreground mb-3">
+        Evaluated {format(new Date(trace.evaluatedAt), "MMM d, yyyy h:mm a")}
+      </p>
+      <div className="space-y-2">
+        {trace.rules.map((rule) => (
+          <div key={rule.rule} className="border rounded-lg p-3 text-sm">
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-medium">{ruleLabels[rule.rule] || rule.rule}</span>
+              <Badge variant="outline" className={outcomeStyles[rule.outcome]}>{rule.outcome}</Badge>
+            </div>
+            <div className="text-xs font-mono text-muted-foreground mb-2">{rule.reasonCode}</div>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+              {Object.entries(rule.inputs).map(([key, value]) => (
+                <div key={`in-${key}`} className="contents">
+                  <dt className="text-muted-foreground">{traceKeyLabel(key)}</dt>
+                  <dd className="text-right">{formatTraceValue(key, value)}</dd>
+                </div>
+              ))}
+              {Object.entries(rule.threshold).map(([key, value]) => (
+                <div key={`th-${key}`} className="contents">
+                  <dt className="text-muted-foreground">{traceKeyLabel(key)} <span className="italic">(required)</span></dt>
+                  <dd className="text-right">{formatTraceValue(key, value)}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Remaining funding for capped programs, so reviewers know before they approve
+function CapacityStrip() {
+  const { data: programs } = usePrograms({ includeClosed: true });
+  const { data: capacities } = useProgramCapacities();
+  const capped = (programs ?? []).filter((p) => !p.archivedAt && hasFundingCap(p));
+  if (capped.length === 0) return null;
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+      {capped.map((program) => {
+        const capacity = capacities?.find((c) => c.programId === program.id);
+        return (
+          <div key={program.id} className="bg-card border rounded-lg p-3 text-sm">
+            <div className="font-medium">{program.name}</div>
+            {capacity && (
+              <div className="text-xs mt-1">
+                <CapacitySummary capacity={capacity} />
+                {capacity.waitlistedCount > 0 && (
+                  <span className="text-muted-foreground"> · {capacity.waitlistedCount} waitlisted</span>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 export default function ReviewerDashboard() {
   const [selectedId, setSelectedId] = useState<number | null>(null);
   const [filterStatus, setFilterStatus] = useState<string>("Submitted");
@@ -62,6 +156,8 @@ export default function ReviewerDashboard() {
         </div>
       </div>
 
+      <CapacityStrip />
+
       <div className="bg-card rounded-xl border shadow-sm overflow-hidden">
         <Table>
           <TableHeader>
@@ -147,6 +243,9 @@ function ApplicationDetailSheet({ id, open, onClose }: { id: number | null, open
     }
   };
 
+  const documentRequirements = app ? getDocumentRequirements(app.program, app) : [];
+  const missingDocuments = documentRequirements.filter((req) => !app?.documents.some((doc) => doc.requirement === req));
+
   return (
     <Sheet open={open} onOpenChange={onClose}>
       <SheetContent className="w-full sm:max-w-xl p-0 flex flex-col h-full bg-background">
@@ -194,10 +293,93 @@ function ApplicationDetailSheet({ id, open, onClose }: { id: number | null, open
                         <span className="text-muted-foreground">Income Limit:</span>
                         <span className="font-medium text-right font-mono text-muted-foreground">
                           ${app.computedLimitCents ? (app.computedLimitCents / 100).toLocaleString() : "N/A"}
+                          {app.limitExtrapolated && <span className="block text-xs italic">extrapolated</span>}
                         </span>
+
+                        {app.eligibilityPath && (
+                          <>
+                            <span className="text-muted-foreground">Eligibility Path:</span>
+                            <span className="font-medium text-right">
+                              {app.eligibilityPath === "Categorical"
+                                ? `Categorical (${getClaimedCategoricalPrograms(app.program, app).join(", ")})`
+                                : "Income"}
+                            </span>
+                          </>
+                        )}
+
+                        {app.incomeTier && (
+                          <>
+                            <span className="text-muted-foreground">Income Tier:</span>
+                            <span className="font-medium text-right">{app.incomeTier}</span>
+                          </>
+                        )}
+
+                        {app.incomeLimitSnapshot?.versionLabel && (
+                          <>
+                            <span className="text-muted-foreground">Limit Version:</span>
+                            <span className="font-medium text-right">
+                              {app.incomeLimitSnapshot.versionLabel}
+                              <span className="block text-xs text-muted-foreground">
+                                from {format(new Date(app.incomeLimitSnapshot.versionEffectiveStart!), "MMM d, yyyy")}
+                              </span>
+                            </span>
+                          </>
+                        )}
                       </div>
                     </div>
 
+                    {/* Income Breakdown */}
+                    {app.incomeLineItems.length > 0 && (
+                      <div>
+                        <h3 className="font-semibold mb-3">Income Breakdown</h3>
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Member</TableHead>
+                              <TableHead>Source</TableHead>
+                              <TableHead className="text-right">Amount</TableHead>
+                              <TableHead className="text-right">Annual</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {app.incomeLineItems.map((item) => (
+                              <TableRow key={item.id}>
+                                <TableCell className="font-medium">{item.memberName}</TableCell>
+                                <TableCell>{incomeSourceLabels[item.sourceType]}</TableCell>
+                                <TableCell className="text-right font-mono text-xs">
+                                  ${(item.amountCents / 100).toLocaleString()} <span className="text-muted-foreground">{item.frequency}</span>
+                                </TableCell>
+                                <TableCell className="text-right font-mono">
+                                  ${(annualizeCents(item.amountCents, item.frequency) / 100).toLocaleString()}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                    )}
+
+                    {/* Answers to the program's custom fields */}
+                    {parseCustomFields(app.program.customFields).length > 0 && (
+                      <div>
+                        <h3 className="font-semibold mb-3">Additional Information</h3>
+                        <dl className="grid grid-cols-1 gap-2 text-sm">
+                          {(() => {
+                            const values = parseCustomFieldValues(app.customFieldValues);
+                            return parseCustomFields(app.program.customFields).map((field) => (
+                              <div key={field.key} className="flex justify-between py-2 border-b">
+                                <dt className="text-muted-foreground">{field.label}</dt>
+                                <dd className="font-medium text-right">{formatCustomFieldValue(field, values[field.key]) || "N/A"}</dd>
+                              </div>
+                            ));
+                          })()}
+                        </dl>
+                      </div>
+                    )}
+
+                    {/* Rule-by-rule trace persisted at submission */}
+                    {app.trace && <CalculationBreakdown trace={app.trace} />}
+
                     {/* Applicant Details */}
                     <div>
                       <h3 className="font-semibold mb-3">Contact Information</h3>
@@ -217,11 +399,33 @@ function ApplicationDetailSheet({ id, open, onClose }: { id: number | null, open
                             {app.city}, {app.state} {app.zip}
                           </dd>
                         </div>
+                        {app.applicantDateOfBirth && (
+                          <div className="flex justify-between py-2 border-b">
+                            <dt className="text-muted-foreground">Date of Birth</dt>
+                            <dd className="font-medium">{format(new Date(`${app.applicantDateOfBirth}T00:00:00`), "MMM d, yyyy")}</dd>
+                          </div>
+                        )}
+                        <div className="flex justify-between py-2 border-b">
+                          <dt className="text-muted-foreground">Residence</dt>
+                          <dd className="font-medium">
+                            {app.residenceType || "N/A"} · {app.propertyType || "N/A"}
+                          </dd>
+                        </div>
                       </dl>
                     </div>
                   </TabsContent>
 
                   <TabsContent value="documents" className="space-y-4">
+                    {missingDocuments.length > 0 && (
+                      <div className="bg-yellow-50 border border-yellow-200 p-3 rounded-lg text-sm">
+                        <p className="font-semibold text-yellow-800 flex items-center gap-2">
+                          <AlertCircle className="w-4 h-4" /> Missing required documents
+                        </p>
+                        <ul className="list-disc pl-6 mt-1 text-yellow-700">
+                          {missingDocuments.map((req) => <li key={req}>{req}</li>)}
+                        </ul>
+                      </div>
+                    )}
                     {app.documents.length === 0 ? (
                       <div className="text-center py-10 text-muted-foreground bg-muted/20 rounded-lg border border-dashed">
                         No documents uploaded yet.
@@ -235,6 +439,7 @@ function ApplicationDetailSheet({ id, open, onClose }: { id: number | null, open
                             </div>
                             <div>
                               <p className="font-medium text-sm">{doc.filename}</p>
+                              {doc.requirement && <Badge variant="secondary" className="mt-1">{doc.requirement}</Badge>}
                               <p className="text-xs text-muted-foreground">{format(new Date(doc.uploadedAt!), "MMM d, h:mm a")}</p>
                             </div>
                           </div>
@@ -302,6 +507,7 @@ function ApplicationDetailSheet({ id, open, onClose }: { id: number | null, open
                  variant="outline" 
                  className="border-green-200 text-green-700 hover:bg-green-50 hover:text-green-800"
                  onClick={() => setDecisionType("Approved")}
+                 disabled={app.status === "Waitlisted"}
                >
                  <CheckCircle className="mr-2 h-4 w-4" /> Approve
                </Button>
@@ -309,6 +515,7 @@ function ApplicationDetailSheet({ id, open, onClose }: { id: number | null, open
                  variant="outline" 
                  className="border-yellow-200 text-yellow-700 hover:bg-yellow-50 hover:text-yellow-800"
                  onClick={() => setDecisionType("NeedsInfo")}
+                 disabled={app.status === "Waitlisted"}
                >
                  <AlertCircle className="mr-2 h-4 w-4" /> Request Info
                </Button>
@@ -1,28 +1,60 @@
 import { useState } from "react";
-import { usePrograms, useProgram, useCreateProgram, useUpdateProgram } from "@/hooks/use-programs";
+import {
+  usePrograms, useProgram, useCreateProgram, useUpdateProgram, useDuplicateProgram, useArchiveProgram, useDeleteProgram,
+  useProgramCapacities
+} from "@/hooks/use-programs";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { programFormSchema, residenceTypeOptions, propertyTypeOptions } from "@shared/schema";
+import { programFormSchema, residenceTypeOptions, propertyTypeOptions, categoricalProgramOptions, type Program } from "@shared/schema";
+import { duplicateProgramSchema } from "@shared/routes";
+import { parseCriteria } from "@shared/criteria";
+import { parseServiceAreas } from "@shared/service-areas";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Loader2, Plus, Calendar, Edit } from "lucide-react";
-import { format } from "date-fns";
+import { Loader2, Plus, Calendar, Edit, Copy, Archive, ArchiveRestore, Trash2, ExternalLink } from "lucide-react";
+import { format, addYears } from "date-fns";
 import { MultiSelect } from "@/components/multi-select";
 import { ZipCodeInput } from "@/components/zip-code-input";
+import { CriteriaBuilder } from "@/components/criteria-builder";
+import { ServiceAreaInput } from "@/components/service-area-input";
+import { RichTextEditor } from "@/components/rich-text";
 import { IncomeLimitsEditor } from "@/components/income-limits-editor";
+import { ReevaluationPanel } from "@/components/reevaluation-panel";
+import { FundingPanel, CapacitySummary } from "@/components/funding-panel";
+import { CustomFieldsEditor } from "@/components/custom-fields-editor";
+
+type ArchiveFilter = "active" | "archived" | "all";
 
 export default function ReviewerPrograms() {
-  const { data: programs, isLoading } = usePrograms();
+  const { data: allPrograms, isLoading } = usePrograms({ includeClosed: true });
+  const { data: capacities } = useProgramCapacities();
+  const [archiveFilter, setArchiveFilter] = useState<ArchiveFilter>("active");
+  const programs = allPrograms?.filter((p) =>
+    archiveFilter === "all" ? true : archiveFilter === "archived" ? !!p.archivedAt : !p.archivedAt
+  );
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [selectedProgramId, setSelectedProgramId] = useState<number | null>(null);
+  const [duplicateSource, setDuplicateSource] = useState<Program | null>(null);
 
   return (
     <div className="space-y-6">
@@ -31,7 +63,19 @@ export default function ReviewerPrograms() {
           <h1 className="text-3xl font-display font-bold">Programs</h1>
           <p className="text-muted-foreground">Manage benefit programs and eligibility rules.</p>
         </div>
-        <CreateProgramDialog open={createDialogOpen} onOpenChange={setCreateDialogOpen} />
+        <div className="flex items-center gap-2">
+          <Select value={archiveFilter} onValueChange={(v) => setArchiveFilter(v as ArchiveFilter)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="archived">Archived</SelectItem>
+              <SelectItem value="all">All Programs</SelectItem>
+            </SelectContent>
+          </Select>
+          <CreateProgramDialog open={createDialogOpen} onOpenChange={setCreateDialogOpen} />
+        </div>
       </div>
 
       <div className="bg-card rounded-xl border shadow-sm overflow-hidden">
@@ -42,20 +86,23 @@ export default function ReviewerPrograms() {
               <TableHead>Program Name</TableHead>
               <TableHead>Region</TableHead>
               <TableHead>Effective Dates</TableHead>
+              <TableHead>Capacity</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {isLoading ? (
               <TableRow>
-                <TableCell colSpan={5} className="text-center py-10">
+                <TableCell colSpan={6} className="text-center py-10">
                   <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
                 </TableCell>
               </TableRow>
             ) : programs?.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={5} className="text-center py-10 text-muted-foreground">
-                  No programs found. Create your first program to get started.
+                <TableCell colSpan={6} className="text-center py-10 text-muted-foreground">
+                  {archiveFilter === "archived"
+                    ? "No archived programs."
+                    : "No programs found. Create your first program to get started."}
                 </TableCell>
               </TableRow>
             ) : (
@@ -66,12 +113,21 @@ export default function ReviewerPrograms() {
                   onClick={() => setSelectedProgramId(program.id)}
                 >
                   <TableCell className="font-mono text-muted-foreground">#{program.id}</TableCell>
-                  <TableCell className="font-medium">{program.name}</TableCell>
+                  <TableCell className="font-medium">
+                    {program.name}
+                    {program.archivedAt && <Badge variant="secondary" className="ml-2">Archived</Badge>}
+                  </TableCell>
                   <TableCell>{program.regionLabel}</TableCell>
                   <TableCell className="text-sm text-muted-foreground">
                     {format(new Date(program.effectiveStart), "MMM d, yyyy")}
                     {program.effectiveEnd && ` - ${format(new Date(program.effectiveEnd), "MMM d, yyyy")}`}
                   </TableCell>
+                  <TableCell className="text-sm">
+                    {(() => {
+                      const capacity = capacities?.find((c) => c.programId === program.id);
+                      return capacity ? <CapacitySummary capacity={capacity} /> : null;
+                    })()}
+                  </TableCell>
                   <TableCell className="text-right">
                     <Button
                       variant="ghost"
@@ -83,6 +139,16 @@ export default function ReviewerPrograms() {
                     >
                       <Edit className="h-4 w-4 mr-1" /> Edit
                     </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setDuplicateSource(program);
+                      }}
+                    >
+                      <Copy className="h-4 w-4 mr-1" /> Duplicate
+                    </Button>
                   </TableCell>
                 </TableRow>
               ))
@@ -96,10 +162,136 @@ export default function ReviewerPrograms() {
         open={!!selectedProgramId}
         onClose={() => setSelectedProgramId(null)}
       />
+
+      {duplicateSource && (
+        <DuplicateProgramDialog
+          source={duplicateSource}
+          onClose={() => setDuplicateSource(null)}
+          onDuplicated={(program) => {
+            setDuplicateSource(null);
+            setSelectedProgramId(program.id);
+          }}
+        />
+      )}
     </div>
   );
 }
 
+// Next year's program: same settings and limits, new dates, optional uplift
+function DuplicateProgramDialog({
+  source,
+  onClose,
+  onDuplicated,
+}: {
+  source: Program;
+  onClose: () => void;
+  onDuplicated: (program: Program) => void;
+}) {
+  const { mutate: duplicateProgram, isPending } = useDuplicateProgram();
+  const form = useForm<z.input<typeof duplicateProgramSchema>, unknown, z.output<typeof duplicateProgramSchema>>({
+    resolver: zodResolver(duplicateProgramSchema),
+    defaultValues: {
+      name: `${source.name} (Copy)`,
+      effectiveStart: addYears(new Date(source.effectiveStart), 1),
+      effectiveEnd: source.effectiveEnd ? addYears(new Date(source.effectiveEnd), 1) : null,
+      upliftPercent: 0,
+    },
+  });
+
+  const onSubmit = (data: z.output<typeof duplicateProgramSchema>) => {
+    duplicateProgram({ id: source.id, data }, { onSuccess: onDuplicated });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Duplicate {source.name}</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          Copies every program setting and the latest income limit version. The copied limits start as a draft
+          version covering the new dates.
+        </p>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Program Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="effectiveStart"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Effective Start</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="date"
+                        value={field.value instanceof Date ? format(field.value, "yyyy-MM-dd") : ""}
+                        onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : undefined)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="effectiveEnd"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Effective End (Optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="date"
+                        value={field.value instanceof Date ? format(field.value, "yyyy-MM-dd") : ""}
+                        onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : null)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="upliftPercent"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Limit Uplift (%)</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.1" {...field} value={field.value as number | string} />
+                  </FormControl>
+                  <FormDescription>Applied to every copied limit, e.g. 3 raises $50,000 to $51,500. Use 0 to copy as-is.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" className="w-full" disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Duplicate Program
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function CreateProgramDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
   const { mutate: createProgram, isPending } = useCreateProgram();
   const form = useForm<z.infer<typeof programFormSchema>>({
@@ -107,12 +299,18 @@ function CreateProgramDialog({ open, onOpenChange }: { open: boolean; onOpenChan
     defaultValues: {
       name: "",
       regionLabel: "",
+      slug: "",
+      description: "",
       effectiveStart: new Date(),
+      submissionGraceDays: 0,
       residenceTypes: [],
       propertyTypes: [],
       documentRequirements: [],
       eligibilityCriteria: "",
+      criteria: [],
       allowedZipCodes: [],
+      serviceAreas: [],
+      categoricalPrograms: [],
     },
   });
 
@@ -120,10 +318,14 @@ function CreateProgramDialog({ open, onOpenChange }: { open: boolean; onOpenChan
     // Transform arrays to JSON strings for API
     const payload = {
       ...data,
+      description: data.description || null,
       residenceTypes: JSON.stringify(data.residenceTypes),
       propertyTypes: JSON.stringify(data.propertyTypes),
       documentRequirements: JSON.stringify(data.documentRequirements),
       allowedZipCodes: JSON.stringify(data.allowedZipCodes),
+      serviceAreas: JSON.stringify(data.serviceAreas),
+      categoricalPrograms: JSON.stringify(data.categoricalPrograms),
+      criteria: JSON.stringify(data.criteria),
     };
 
     createProgram(payload, {
@@ -193,6 +395,24 @@ function CreateProgramDialog({ open, onOpenChange }: { open: boolean; onOpenChan
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="slug"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Public Link (Optional)</FormLabel>
+                  <FormControl>
+                    <div className="flex items-center gap-1">
+                      <span className="text-sm text-muted-foreground">/programs/</span>
+                      <Input placeholder="energy-assistance-2024" {...field} />
+                    </div>
+                  </FormControl>
+                  <FormDescription>Leave blank to generate one from the program name</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -231,6 +451,21 @@ function CreateProgramDialog({ open, onOpenChange }: { open: boolean; onOpenChan
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="submissionGraceDays"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Submission Grace Period (Days)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} {...field} />
+                  </FormControl>
+                  <FormDescription>Drafts started before the end date can still be submitted for this many days</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="residenceTypes"
@@ -271,6 +506,26 @@ function CreateProgramDialog({ open, onOpenChange }: { open: boolean; onOpenChan
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="categoricalPrograms"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Categorical Eligibility</FormLabel>
+                  <FormControl>
+                    <MultiSelect
+                      options={categoricalProgramOptions}
+                      value={field.value}
+                      onChange={field.onChange}
+                      placeholder="Select qualifying enrollments..."
+                    />
+                  </FormControl>
+                  <FormDescription>Households enrolled in any of these qualify regardless of income</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="documentRequirements"
@@ -330,20 +585,63 @@ function CreateProgramDialog({ open, onOpenChange }: { open: boolean; onOpenChan
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="serviceAreas"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Service Area Counties & States</FormLabel>
+                  <FormControl>
+                    <ServiceAreaInput value={field.value} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="criteria"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Eligibility Criteria</FormLabel>
+                  <FormControl>
+                    <CriteriaBuilder value={field.value} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Program Description (Optional)</FormLabel>
+                  <FormControl>
+                    <RichTextEditor value={field.value ?? ""} onChange={field.onChange} placeholder="What the program offers and how to apply..." />
+                  </FormControl>
+                  <FormDescription>Shown on the program's public page</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="eligibilityCriteria"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Eligibility Criteria (Optional)</FormLabel>
+                  <FormLabel>Who Can Apply (Optional)</FormLabel>
                   <FormControl>
                     <Textarea
-                      placeholder="Additional eligibility requirements..."
+                      placeholder="Who this program is for, in plain language..."
                       className="min-h-[100px]"
                       {...field}
                     />
                   </FormControl>
-                  <FormDescription>Free-form text describing additional eligibility rules</FormDescription>
+                  <FormDescription>Shown to applicants; not evaluated</FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
@@ -363,6 +661,9 @@ function CreateProgramDialog({ open, onOpenChange }: { open: boolean; onOpenChan
 function ProgramDetailSheet({ programId, open, onClose }: { programId: number | null; open: boolean; onClose: () => void }) {
   const { data: program, isLoading } = useProgram(programId || 0);
   const { mutate: updateProgram, isPending } = useUpdateProgram();
+  const { mutate: archiveProgram, isPending: isArchiving } = useArchiveProgram();
+  const { mutate: deleteProgram, isPending: isDeleting } = useDeleteProgram();
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
 
   const form = useForm<z.infer<typeof programFormSchema>>({
     resolver: zodResolver(programFormSchema),
@@ -374,13 +675,19 @@ function ProgramDetailSheet({ programId, open, onClose }: { programId: number |
       form.reset({
         name: program.name,
         regionLabel: program.regionLabel,
+        slug: program.slug ?? "",
+        description: program.description ?? "",
         effectiveStart: new Date(program.effectiveStart),
         effectiveEnd: program.effectiveEnd ? new Date(program.effectiveEnd) : null,
+        submissionGraceDays: program.submissionGraceDays,
         residenceTypes: JSON.parse(program.residenceTypes || "[]"),
         propertyTypes: JSON.parse(program.propertyTypes || "[]"),
         documentRequirements: JSON.parse(program.documentRequirements || "[]"),
         allowedZipCodes: JSON.parse(program.allowedZipCodes || "[]"),
+        serviceAreas: parseServiceAreas(program.serviceAreas),
+        categoricalPrograms: JSON.parse(program.categoricalPrograms || "[]"),
         eligibilityCriteria: program.eligibilityCriteria || "",
+        criteria: parseCriteria(program.criteria),
       });
     }
   });
@@ -390,10 +697,14 @@ function ProgramDetailSheet({ programId, open, onClose }: { programId: number |
 
     const payload = {
       ...data,
+      description: data.description || null,
       residenceTypes: JSON.stringify(data.residenceTypes),
       propertyTypes: JSON.stringify(data.propertyTypes),
       documentRequirements: JSON.stringify(data.documentRequirements),
       allowedZipCodes: JSON.stringify(data.allowedZipCodes),
+      serviceAreas: JSON.stringify(data.serviceAreas),
+      categoricalPrograms: JSON.stringify(data.categoricalPrograms),
+      criteria: JSON.stringify(data.criteria),
     };
 
     updateProgram({ id: programId, data: payload });
@@ -428,11 +739,59 @@ function ProgramDetailSheet({ programId, open, onClose }: { programId: number |
           </div>
         ) : (
           <>
-            <div className="px-6 py-4 border-b">
-              <SheetTitle className="text-xl">Edit Program</SheetTitle>
-              <p className="text-sm text-muted-foreground">#{program.id} - {program.name}</p>
+            <div className="px-6 py-4 border-b flex items-start justify-between gap-4">
+              <div>
+                <SheetTitle className="text-xl flex items-center gap-2">
+                  Edit Program
+                  {program.archivedAt && <Badge variant="secondary">Archived</Badge>}
+                </SheetTitle>
+                <p className="text-sm text-muted-foreground">#{program.id} - {program.name}</p>
+              </div>
+              <div className="flex gap-2 mr-8">
+                {program.slug && !program.archivedAt && (
+                  <a href={`/programs/${program.slug}`} target="_blank" rel="noopener noreferrer">
+                    <Button variant="outline" size="sm">
+                      <ExternalLink className="h-4 w-4 mr-1" /> Public Page
+                    </Button>
+                  </a>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isArchiving}
+                  onClick={() => archiveProgram({ id: program.id, archived: !program.archivedAt })}
+                >
+                  {program.archivedAt
+                    ? <><ArchiveRestore className="h-4 w-4 mr-1" /> Restore</>
+                    : <><Archive className="h-4 w-4 mr-1" /> Archive</>}
+                </Button>
+                <Button variant="outline" size="sm" className="text-red-600" onClick={() => setDeleteDialogOpen(true)}>
+                  <Trash2 className="h-4 w-4 mr-1" /> Delete
+                </Button>
+              </div>
             </div>
 
+            <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete {program.name}?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This permanently deletes the program and all of its income limits. Programs that have received
+                    applications can't be deleted; archive them instead to hide them from applicants.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    disabled={isDeleting}
+                    onClick={() => deleteProgram(program.id, { onSuccess: onClose })}
+                  >
+                    Delete Program
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+
             <Tabs defaultValue="details" className="flex-1 flex flex-col overflow-hidden">
               <div className="px-6 pt-4">
                 <TabsList className="w-full">
@@ -442,6 +801,15 @@ function ProgramDetailSheet({ programId, open, onClose }: { programId: number |
                   <TabsTrigger value="limits" className="flex-1">
                     Income Limits
                   </TabsTrigger>
+                  <TabsTrigger value="questions" className="flex-1">
+                    Questions
+                  </TabsTrigger>
+                  <TabsTrigger value="funding" className="flex-1">
+                    Funding
+                  </TabsTrigger>
+                  <TabsTrigger value="reevaluate" className="flex-1">
+                    Re-evaluate
+                  </TabsTrigger>
                 </TabsList>
               </div>
 
@@ -478,6 +846,24 @@ function ProgramDetailSheet({ programId, open, onClose }: { programId: number |
                           )}
                         />
 
+                        <FormField
+                          control={form.control}
+                          name="slug"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Public Link</FormLabel>
+                              <FormControl>
+                                <div className="flex items-center gap-1">
+                                  <span className="text-sm text-muted-foreground">/programs/</span>
+                                  <Input {...field} />
+                                </div>
+                              </FormControl>
+                              <FormDescription>Changing this breaks links already shared</FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
                         <div className="grid grid-cols-2 gap-4">
                           <FormField
                             control={form.control}
@@ -516,6 +902,21 @@ function ProgramDetailSheet({ programId, open, onClose }: { programId: number |
                           />
                         </div>
 
+                        <FormField
+                          control={form.control}
+                          name="submissionGraceDays"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Submission Grace Period (Days)</FormLabel>
+                              <FormControl>
+                                <Input type="number" min={0} {...field} />
+                              </FormControl>
+                              <FormDescription>Drafts started before the end date can still be submitted for this many days</FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
                         <FormField
                           control={form.control}
                           name="residenceTypes"
@@ -554,6 +955,26 @@ function ProgramDetailSheet({ programId, open, onClose }: { programId: number |
                           )}
                         />
 
+                        <FormField
+                          control={form.control}
+                          name="categoricalPrograms"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Categorical Eligibility</FormLabel>
+                              <FormControl>
+                                <MultiSelect
+                                  options={categoricalProgramOptions}
+                                  value={field.value}
+                                  onChange={field.onChange}
+                                  placeholder="Select qualifying enrollments..."
+                                />
+                              </FormControl>
+                              <FormDescription>Households enrolled in any of these qualify regardless of income</FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
                         <FormField
                           control={form.control}
                           name="documentRequirements"
@@ -614,13 +1035,57 @@ function ProgramDetailSheet({ programId, open, onClose }: { programId: number |
 
                         <FormField
                           control={form.control}
-                          name="eligibilityCriteria"
+                          name="serviceAreas"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Service Area Counties & States</FormLabel>
+                              <FormControl>
+                                <ServiceAreaInput value={field.value || []} onChange={field.onChange} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="criteria"
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel>Eligibility Criteria</FormLabel>
                               <FormControl>
-                                <Textarea placeholder="Additional eligibility requirements..." className="min-h-[100px]" {...field} />
+                                <CriteriaBuilder value={field.value || []} onChange={field.onChange} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="description"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Program Description</FormLabel>
+                              <FormControl>
+                                <RichTextEditor value={field.value ?? ""} onChange={field.onChange} placeholder="What the program offers and how to apply..." />
                               </FormControl>
+                              <FormDescription>Shown on the program's public page</FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="eligibilityCriteria"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Who Can Apply</FormLabel>
+                              <FormControl>
+                                <Textarea placeholder="Who this program is for, in plain language..." className="min-h-[100px]" {...field} />
+                              </FormControl>
+                              <FormDescription>Shown to applicants; not evaluated</FormDescription>
                               <FormMessage />
                             </FormItem>
                           )}
@@ -637,6 +1102,18 @@ function ProgramDetailSheet({ programId, open, onClose }: { programId: number |
                   <TabsContent value="limits" className="mt-0">
                     <IncomeLimitsEditor programId={programId} />
                   </TabsContent>
+
+                  <TabsContent value="questions" className="mt-0">
+                    <CustomFieldsEditor programId={programId} />
+                  </TabsContent>
+
+                  <TabsContent value="funding" className="mt-0">
+                    <FundingPanel programId={programId} />
+                  </TabsContent>
+
+                  <TabsContent value="reevaluate" className="mt-0">
+                    <ReevaluationPanel programId={programId} />
+                  </TabsContent>
                 </div>
               </ScrollArea>
             </Tabs>
@@ -0,0 +1,52 @@
+import { readFile, writeFile } from "fs/promises";
+
+// Regenerates server/data/zip-counties.json from the GeoNames US postal code dump
+// (https://download.geonames.org/export/zip/US.zip, CC BY 4.0). Pass the path to
+// the unzipped US.txt. ZIPs without a state (APO/FPO) are dropped; ZIPs without a
+// county keep their state so the state can still be checked.
+//
+//   npx tsx script/build-zip-counties.ts ~/Downloads/US.txt
+
+const outFile = "server/data/zip-counties.json";
+
+// GeoNames spells out a few consolidated city-counties; match the usual county name
+function countyName(raw: string): string {
+  return raw.trim().replace(/^City and County of /, "");
+}
+
+async function build() {
+  const source = process.argv[2];
+  if (!source) throw new Error("Usage: tsx script/build-zip-counties.ts <path to GeoNames US.txt>");
+
+  // state -> county ("" when unknown) -> ZIPs
+  const byState = new Map<string, Map<string, string[]>>();
+  for (const line of (await readFile(source, "utf8")).split("\n")) {
+    const [, zip, , , state, county] = line.split("\t");
+    if (!/^\d{5}$/.test(zip ?? "") || !/^[A-Z]{2}$/.test(state ?? "")) continue;
+    const counties = byState.get(state) ?? new Map<string, string[]>();
+    byState.set(state, counties);
+    const name = countyName(county ?? "");
+    counties.set(name, [...(counties.get(name) ?? []), zip]);
+  }
+
+  const data: Record<string, Record<string, string>> = {};
+  for (const state of Array.from(byState.keys()).sort()) {
+    const counties = byState.get(state)!;
+    data[state] = {};
+    for (const county of Array.from(counties.keys()).sort()) {
+      data[state][county] = counties.get(county)!.sort().join(" ");
+    }
+  }
+
+  await writeFile(outFile, JSON.stringify(data, null, 1) + "\n");
+  const zipCount = Array.from(byState.values()).reduce(
+    (sum, counties) => sum + Array.from(counties.values()).reduce((n, zips) => n + zips.length, 0),
+    0
+  );
+  console.log(`wrote ${zipCount} ZIPs in ${byState.size} states to ${outFile}`);
+}
+
+build().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
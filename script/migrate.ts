@@ -0,0 +1,38 @@
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import pg from "pg";
+
+// Data migrations that `drizzle-kit push` can't do on its own, such as backfilling
+// a new NOT NULL column. Run before db:push; each file is safe to run repeatedly.
+
+const migrationsDir = path.join(process.cwd(), "script", "migrations");
+
+async function migrate() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set. Did you forget to provision a database?");
+  }
+
+  const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+  await client.connect();
+  try {
+    const files = (await readdir(migrationsDir)).filter((f) => f.endsWith(".sql")).sort();
+    for (const file of files) {
+      console.log(`applying ${file}`);
+      await client.query("BEGIN");
+      try {
+        await client.query(await readFile(path.join(migrationsDir, file), "utf8"));
+        await client.query("COMMIT");
+      } catch (err) {
+        await client.query("ROLLBACK");
+        throw err;
+      }
+    }
+  } finally {
+    await client.end();
+  }
+}
+
+migrate().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
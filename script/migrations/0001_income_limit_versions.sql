@@ -0,0 +1,51 @@
+-- Moves per-row version labels on income_limits into income_limit_versions.
+-- Each label a program used becomes its own version, effective from the
+-- program's start. The label with the most recently created rows is
+-- Published and older ones stay as Drafts. Does nothing once
+-- income_limits.version_label is gone, so it is safe to run again.
+
+CREATE TABLE IF NOT EXISTS income_limit_versions (
+  id serial PRIMARY KEY,
+  program_id integer NOT NULL,
+  label text NOT NULL,
+  effective_start timestamp NOT NULL,
+  effective_end timestamp,
+  status text NOT NULL DEFAULT 'Draft',
+  published_at timestamp,
+  created_at timestamp DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'income_limits' AND column_name = 'version_label'
+  ) THEN
+    ALTER TABLE income_limits ADD COLUMN IF NOT EXISTS version_id integer;
+
+    INSERT INTO income_limit_versions (program_id, label, effective_start, status, published_at)
+    SELECT p.id, labels.version_label, p.effective_start,
+      CASE WHEN labels.age = 1 THEN 'Published' ELSE 'Draft' END,
+      CASE WHEN labels.age = 1 THEN now() END
+    FROM (
+      SELECT program_id, version_label,
+        row_number() OVER (
+          PARTITION BY program_id
+          ORDER BY MAX(created_at) DESC NULLS LAST, version_label DESC
+        ) AS age
+      FROM income_limits
+      GROUP BY program_id, version_label
+    ) labels
+    JOIN programs p ON p.id = labels.program_id
+    WHERE NOT EXISTS (SELECT 1 FROM income_limit_versions v WHERE v.program_id = p.id)
+    ORDER BY p.id, labels.age DESC;
+
+    UPDATE income_limits l
+    SET version_id = v.id
+    FROM income_limit_versions v
+    WHERE v.program_id = l.program_id AND v.label = l.version_label AND l.version_id IS NULL;
+
+    ALTER TABLE income_limits ALTER COLUMN version_id SET NOT NULL;
+    ALTER TABLE income_limits DROP COLUMN version_label;
+  END IF;
+END $$;
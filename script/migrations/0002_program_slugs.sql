@@ -0,0 +1,28 @@
+-- Gives every program without a slug one made from its name, the way new
+-- programs get theirs: "Winter Heating Aid" -> "winter-heating-aid", with
+-- -2, -3, ... appended when another program already has it. Programs that
+-- have a slug keep it, so it is safe to run again.
+
+DO $$
+DECLARE
+  program record;
+  base text;
+  candidate text;
+  n integer;
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'programs') THEN
+    ALTER TABLE programs ADD COLUMN IF NOT EXISTS slug text;
+
+    FOR program IN SELECT id, name FROM programs WHERE slug IS NULL OR slug = '' ORDER BY id LOOP
+      base := translate(lower(program.name), 'àáâãäåçèéêëìíîïñòóôõöùúûüýÿ', 'aaaaaaceeeeiiiinooooouuuuyy');
+      base := COALESCE(NULLIF(trim(BOTH '-' FROM regexp_replace(base, '[^a-z0-9]+', '-', 'g')), ''), 'program');
+      candidate := base;
+      n := 1;
+      WHILE EXISTS (SELECT 1 FROM programs WHERE slug = candidate) LOOP
+        n := n + 1;
+        candidate := base || '-' || n;
+      END LOOP;
+      UPDATE programs SET slug = candidate WHERE id = program.id;
+    END LOOP;
+  END IF;
+END $$;
@@ -0,0 +1,277 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Document, Program } from "@shared/schema";
+import {
+  evaluateEligibility, combineResults, getMissingDocumentRequirements,
+  effectiveDatesRule, zipCodeRule, residenceTypeRule, criteriaRule, categoricalRule, incomeLimitRule,
+  requiredDocumentsRule, prescreenRules,
+  type EligibilityContext, type ResolvedIncomeLimit,
+} from "./eligibility";
+
+// The rules are synchronous; only context loading touches the database
+vi.mock("./storage", () => ({ storage: {} }));
+
+function makeProgram(overrides: Partial<Program> = {}): Program {
+  return {
+    id: 1,
+    name: "Home Repair Grant",
+    regionLabel: "Brooklyn",
+    slug: null,
+    description: null,
+    effectiveStart: new Date("2025-01-01"),
+    effectiveEnd: null,
+    submissionGraceDays: 0,
+    residenceTypes: "[]",
+    propertyTypes: "[]",
+    documentRequirements: "[]",
+    eligibilityCriteria: null,
+    criteria: "[]",
+    allowedZipCodes: "[]",
+    serviceAreas: "[]",
+    categoricalPrograms: "[]",
+    customFields: "[]",
+    limitBasis: "Fixed",
+    amiTableId: null,
+    amiPercent: null,
+    extrapolationPolicy: "None",
+    extrapolationPercent: 8,
+    extrapolationIncrementCents: null,
+    incomeTiers: "[]",
+    maxApprovals: null,
+    budgetCents: null,
+    awardCents: null,
+    archivedAt: null,
+    createdAt: new Date("2024-12-01"),
+    ...overrides,
+  };
+}
+
+function makeLimit(limitCents: number): ResolvedIncomeLimit {
+  return {
+    limitCents,
+    ruleVersion: "FY2025",
+    extrapolated: false,
+    snapshot: {
+      basis: "Fixed",
+      householdSize: 3,
+      limitCents,
+      extrapolated: false,
+      incomeLimitId: 7,
+      versionId: 2,
+      versionLabel: "FY2025",
+      versionEffectiveStart: "2025-01-01T00:00:00.000Z",
+      versionEffectiveEnd: null,
+      amiDatasetVersion: null,
+      amiAreaName: null,
+      amiPercent: null,
+      programEffectiveStart: "2025-01-01T00:00:00.000Z",
+      programEffectiveEnd: null,
+    },
+  };
+}
+
+function makeDocument(requirement: string): Document {
+  return {
+    id: 1,
+    applicationId: 1,
+    filename: "proof.pdf",
+    path: "uploads/proof.pdf",
+    mimeType: "application/pdf",
+    sizeBytes: 1024,
+    requirement,
+    uploadedAt: new Date("2025-03-01"),
+  };
+}
+
+function makeContext(overrides: {
+  program?: Partial<Program>;
+  application?: Partial<EligibilityContext["application"]>;
+  incomeLimit?: ResolvedIncomeLimit;
+  documents?: Document[];
+} = {}): EligibilityContext {
+  return {
+    program: makeProgram(overrides.program),
+    application: {
+      createdAt: new Date("2025-03-01"),
+      state: "NY",
+      zip: "11201",
+      residenceType: "Own",
+      propertyType: "Single-family",
+      applicantDateOfBirth: null,
+      householdSize: 3,
+      annualIncomeCents: 4_000_000,
+      categoricalEnrollments: "[]",
+      ...overrides.application,
+    },
+    incomeLimit: "incomeLimit" in overrides ? overrides.incomeLimit : makeLimit(5_000_000),
+    incomeLineItems: [],
+    documents: overrides.documents ?? [],
+    asOf: new Date("2025-03-15"),
+  };
+}
+
+describe("effectiveDatesRule", () => {
+  it("fails before the program starts and after it ends", () => {
+    expect(effectiveDatesRule.evaluate(makeContext({ program: { effectiveStart: new Date("2025-04-01") } })).reasonCode)
+      .toBe("PROGRAM_NOT_STARTED");
+    expect(effectiveDatesRule.evaluate(makeContext({ program: { effectiveEnd: new Date("2025-03-01") } })).reasonCode)
+      .toBe("PROGRAM_ENDED");
+  });
+
+  it("lets drafts started before the close submit during the grace period", () => {
+    const verdict = effectiveDatesRule.evaluate(makeContext({
+      program: { effectiveEnd: new Date("2025-03-10"), submissionGraceDays: 14 },
+      application: { createdAt: new Date("2025-03-05") },
+    }));
+    expect(verdict).toMatchObject({ outcome: "Pass", reasonCode: "PROGRAM_GRACE_PERIOD" });
+  });
+});
+
+describe("zipCodeRule", () => {
+  it("passes any ZIP when the program has no restrictions", () => {
+    expect(zipCodeRule.evaluate(makeContext()).reasonCode).toBe("ZIP_UNRESTRICTED");
+  });
+
+  it("matches listed ZIPs and served counties", () => {
+    expect(zipCodeRule.evaluate(makeContext({ program: { allowedZipCodes: '["11201"]' } })).outcome).toBe("Pass");
+    const kings = JSON.stringify([{ type: "County", state: "NY", county: "Kings" }]);
+    expect(zipCodeRule.evaluate(makeContext({ program: { serviceAreas: kings } })).reasonCode).toBe("ZIP_ALLOWED");
+    expect(zipCodeRule.evaluate(makeContext({ program: { serviceAreas: kings }, application: { zip: "10001" } })).reasonCode)
+      .toBe("ZIP_NOT_ALLOWED");
+  });
+
+  it("takes the state from the ZIP, not the applicant's answer", () => {
+    const newJersey = JSON.stringify([{ type: "State", state: "NJ" }]);
+    const verdict = zipCodeRule.evaluate(makeContext({ program: { serviceAreas: newJersey }, application: { state: "NJ" } }));
+    expect(verdict).toMatchObject({ outcome: "Fail", inputs: { state: "NY", county: "Kings" } });
+  });
+
+  it("sends unknown ZIPs to review when a service area might cover them", () => {
+    const kings = JSON.stringify([{ type: "County", state: "NY", county: "Kings" }]);
+    expect(zipCodeRule.evaluate(makeContext({ program: { serviceAreas: kings }, application: { zip: "00000" } })).reasonCode)
+      .toBe("ZIP_AREA_UNKNOWN");
+  });
+});
+
+describe("residenceTypeRule", () => {
+  it("fails residence types the program doesn't serve and reviews missing answers", () => {
+    const program = { residenceTypes: '["Own"]' };
+    expect(residenceTypeRule.evaluate(makeContext({ program })).outcome).toBe("Pass");
+    expect(residenceTypeRule.evaluate(makeContext({ program, application: { residenceType: "Rent" } })).outcome).toBe("Fail");
+    expect(residenceTypeRule.evaluate(makeContext({ program, application: { residenceType: null } })).outcome)
+      .toBe("NeedsReview");
+  });
+});
+
+describe("criteriaRule", () => {
+  it("fails unmet conditions and reviews missing facts", () => {
+    const criteria = JSON.stringify([{ type: "MinimumAge", age: 62 }]);
+    expect(criteriaRule.evaluate(makeContext({ program: { criteria } })).reasonCode).toBe("CRITERIA_DATA_MISSING");
+    expect(criteriaRule.evaluate(makeContext({ program: { criteria }, application: { applicantDateOfBirth: "1990-01-01" } })).reasonCode)
+      .toBe("CRITERIA_NOT_MET");
+    expect(criteriaRule.evaluate(makeContext({ program: { criteria }, application: { applicantDateOfBirth: "1950-01-01" } })).reasonCode)
+      .toBe("CRITERIA_MET");
+  });
+});
+
+describe("categoricalRule", () => {
+  const program = { categoricalPrograms: '["SNAP"]' };
+  const application = { categoricalEnrollments: '["SNAP"]' };
+
+  it("reviews a claimed enrollment until proof is uploaded", () => {
+    expect(categoricalRule.evaluate(makeContext({ program, application })).reasonCode).toBe("CATEGORICAL_PROOF_MISSING");
+    expect(categoricalRule.evaluate(makeContext({
+      program, application, documents: [makeDocument("Proof of SNAP enrollment")],
+    })).reasonCode).toBe("CATEGORICAL_PROOF_PROVIDED");
+  });
+
+  it("ignores enrollments the program doesn't accept", () => {
+    expect(categoricalRule.evaluate(makeContext({ program, application: { categoricalEnrollments: '["WIC"]' } })).reasonCode)
+      .toBe("CATEGORICAL_NOT_CLAIMED");
+  });
+});
+
+describe("incomeLimitRule", () => {
+  it("compares annual income with the household's limit", () => {
+    expect(incomeLimitRule.evaluate(makeContext({ application: { annualIncomeCents: 5_000_000 } })).reasonCode)
+      .toBe("INCOME_WITHIN_LIMIT");
+    expect(incomeLimitRule.evaluate(makeContext({ application: { annualIncomeCents: 5_000_001 } })).reasonCode)
+      .toBe("INCOME_OVER_LIMIT");
+  });
+
+  it("uses the widest tier as the ceiling", () => {
+    const incomeTiers = JSON.stringify([{ name: "Full", percentOfLimit: 50 }, { name: "Partial", percentOfLimit: 120 }]);
+    expect(incomeLimitRule.evaluate(makeContext({ program: { incomeTiers }, application: { annualIncomeCents: 5_500_000 } })).outcome)
+      .toBe("Pass");
+    expect(incomeLimitRule.evaluate(makeContext({ program: { incomeTiers }, application: { annualIncomeCents: 6_100_000 } })).outcome)
+      .toBe("Fail");
+  });
+
+  it("reviews missing income or a missing limit", () => {
+    expect(incomeLimitRule.evaluate(makeContext({ application: { annualIncomeCents: null } })).reasonCode)
+      .toBe("INCOME_DATA_MISSING");
+    expect(incomeLimitRule.evaluate(makeContext({ incomeLimit: undefined })).reasonCode).toBe("LIMIT_NOT_FOUND");
+  });
+
+  it("waives income for categorical enrollment", () => {
+    const verdict = incomeLimitRule.evaluate(makeContext({
+      program: { categoricalPrograms: '["SNAP"]' },
+      application: { categoricalEnrollments: '["SNAP"]', annualIncomeCents: 9_000_000 },
+    }));
+    expect(verdict.reasonCode).toBe("INCOME_WAIVED_CATEGORICAL");
+  });
+});
+
+describe("requiredDocumentsRule", () => {
+  it("requires landlord consent from renters", () => {
+    const ctx = makeContext({ application: { residenceType: "Rent" } });
+    expect(requiredDocumentsRule.evaluate(ctx).reasonCode).toBe("DOCUMENTS_MISSING");
+    expect(getMissingDocumentRequirements(ctx.program, ctx.application, [])).toEqual(["Landlord consent form"]);
+    expect(requiredDocumentsRule.evaluate({ ...ctx, documents: [makeDocument("Landlord consent form")] }).reasonCode)
+      .toBe("DOCUMENTS_PROVIDED");
+  });
+});
+
+describe("combineResults", () => {
+  it("lets any failure win over review", () => {
+    const result = (outcome: "Pass" | "Fail" | "NeedsReview") => ({ rule: "r", outcome, reasonCode: "X", inputs: {}, threshold: {} });
+    expect(combineResults([result("Pass"), result("Pass")])).toBe("Eligible");
+    expect(combineResults([result("Pass"), result("NeedsReview")])).toBe("NeedsReview");
+    expect(combineResults([result("NeedsReview"), result("Fail")])).toBe("NotEligible");
+  });
+});
+
+describe("evaluateEligibility", () => {
+  it("records the tier, path and limit of an eligible application", () => {
+    const incomeTiers = JSON.stringify([{ name: "Full", percentOfLimit: 50 }, { name: "Partial", percentOfLimit: 100 }]);
+    const evaluation = evaluateEligibility(makeContext({ program: { incomeTiers } }));
+    expect(evaluation).toMatchObject({
+      systemResult: "Eligible",
+      incomeTier: "Partial",
+      eligibilityPath: "Income",
+      computedLimitCents: 5_000_000,
+      ruleVersion: "FY2025",
+    });
+    expect(evaluation.trace.rules.map((r) => r.rule)).toEqual([
+      "effectiveDates", "zipCode", "residenceType", "propertyType", "criteria", "categorical", "incomeLimit", "requiredDocuments",
+    ]);
+  });
+
+  it("leaves the tier and path empty when not eligible", () => {
+    const evaluation = evaluateEligibility(makeContext({ application: { annualIncomeCents: 9_000_000 } }));
+    expect(evaluation).toMatchObject({ systemResult: "NotEligible", incomeTier: null, eligibilityPath: null });
+  });
+
+  it("skips the document rules for pre-screens", () => {
+    const evaluation = evaluateEligibility(makeContext({ application: { residenceType: "Rent" } }), prescreenRules);
+    expect(evaluation.systemResult).toBe("Eligible");
+    expect(evaluation.results.map((r) => r.rule)).not.toContain("requiredDocuments");
+  });
+
+  it("sends pre-screens claiming an enrollment to review", () => {
+    const evaluation = evaluateEligibility(makeContext({
+      program: { categoricalPrograms: '["SNAP"]' },
+      application: { categoricalEnrollments: '["SNAP"]', annualIncomeCents: 9_000_000 },
+    }), prescreenRules);
+    expect(evaluation).toMatchObject({ systemResult: "NeedsReview", eligibilityPath: "Categorical" });
+  });
+});
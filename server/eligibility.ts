@@ -0,0 +1,466 @@
+import { storage } from "./storage";
+import { resolveZipLocation } from "./zip-counties";
+import {
+  ruleOutcomes, systemResults, eligibilityPaths,
+  type Application, type Program, type Document, type IncomeLineItem, type IncomeLimitVersion, type LimitSnapshot,
+  type ReevaluationChange,
+  type RuleResult, type EligibilityTrace
+} from "@shared/schema";
+import { lookupLimit, parseIncomeTiers, assignIncomeTier } from "@shared/limits";
+import { getProgramWindowStatus, getSubmissionDeadline } from "@shared/availability";
+import { parseCriteria, describeCriterion, evaluateCriterion, applicantAge } from "@shared/criteria";
+import { parseServiceAreas, describeServiceArea, matchServiceArea } from "@shared/service-areas";
+import {
+  parseJsonArray, categoricalProofRequirement, getClaimedCategoricalPrograms, getDocumentRequirements, getRequiredDocuments
+} from "@shared/requirements";
+
+export type RuleOutcome = typeof ruleOutcomes[number];
+export type SystemResult = typeof systemResults[number];
+export type EligibilityPath = typeof eligibilityPaths[number];
+
+// The limit that applies to one household, from either the program's fixed
+// table or its AMI table.
+export interface ResolvedIncomeLimit {
+  limitCents: number;
+  ruleVersion: string;
+  extrapolated: boolean;
+  snapshot: LimitSnapshot;
+}
+
+// The applicant facts rules read. Pre-screens supply these without an application row.
+export type EligibilityApplicant = Pick<
+  Application,
+  | "createdAt" | "state" | "zip" | "residenceType" | "propertyType" | "applicantDateOfBirth"
+  | "householdSize" | "annualIncomeCents" | "categoricalEnrollments"
+>;
+
+// Everything a rule may look at. Loaded once per evaluation so rules stay synchronous.
+export interface EligibilityContext {
+  program: Program;
+  application: EligibilityApplicant;
+  incomeLimit: ResolvedIncomeLimit | undefined;
+  incomeLineItems: IncomeLineItem[];
+  documents: Document[];
+  asOf: Date;
+}
+
+export type { RuleResult };
+export type RuleVerdict = Omit<RuleResult, "rule">;
+type RuleDetails = Pick<RuleResult, "inputs" | "threshold">;
+
+export interface EligibilityRule {
+  id: string;
+  evaluate(ctx: EligibilityContext): RuleVerdict;
+}
+
+export interface EligibilityEvaluation {
+  systemResult: SystemResult;
+  computedLimitCents: number | null;
+  limitExtrapolated: boolean;
+  incomeTier: string | null;
+  eligibilityPath: EligibilityPath | null;
+  ruleVersion: string | null;
+  limitSnapshot: LimitSnapshot | null;
+  results: RuleResult[];
+  trace: EligibilityTrace;
+}
+
+function pass(reasonCode: string, details: RuleDetails): RuleVerdict {
+  return { outcome: "Pass", reasonCode, ...details };
+}
+
+function fail(reasonCode: string, details: RuleDetails): RuleVerdict {
+  return { outcome: "Fail", reasonCode, ...details };
+}
+
+function review(reasonCode: string, details: RuleDetails): RuleVerdict {
+  return { outcome: "NeedsReview", reasonCode, ...details };
+}
+
+function providedRequirements(documents: Document[]): Set<string | null> {
+  return new Set(documents.map(d => d.requirement).filter(Boolean));
+}
+
+// Document requirements, including categorical proofs, that no upload has been tagged against.
+export function getMissingDocumentRequirements(
+  program: Program,
+  application: EligibilityApplicant,
+  documents: Document[]
+): string[] {
+  const provided = providedRequirements(documents);
+  return getDocumentRequirements(program, application).filter(req => !provided.has(req));
+}
+
+// --- RULES ---
+
+export const effectiveDatesRule: EligibilityRule = {
+  id: "effectiveDates",
+  evaluate({ program, application, asOf }) {
+    const startedAt = application.createdAt ? new Date(application.createdAt) : null;
+    const details = {
+      inputs: { evaluatedAt: asOf.toISOString(), startedAt: toIsoString(startedAt) },
+      threshold: {
+        effectiveStart: new Date(program.effectiveStart).toISOString(),
+        effectiveEnd: toIsoString(program.effectiveEnd),
+        submissionDeadline: toIsoString(getSubmissionDeadline(program)),
+      },
+    };
+    switch (getProgramWindowStatus(program, asOf, startedAt)) {
+      case "NotStarted": return fail("PROGRAM_NOT_STARTED", details);
+      case "Closed": return fail("PROGRAM_ENDED", details);
+      case "Grace": return pass("PROGRAM_GRACE_PERIOD", details);
+      default: return pass("PROGRAM_ACTIVE", details);
+    }
+  },
+};
+
+export const zipCodeRule: EligibilityRule = {
+  id: "zipCode",
+  evaluate({ program, application }) {
+    const allowedZips = parseJsonArray(program.allowedZipCodes);
+    const areas = parseServiceAreas(program.serviceAreas);
+    const location = resolveZipLocation(application.zip);
+    const details = {
+      inputs: { zip: application.zip, county: location?.county ?? null, state: location?.state ?? null },
+      threshold: { allowedZipCodes: allowedZips, serviceAreas: areas.map(describeServiceArea) },
+    };
+    if (allowedZips.length === 0 && areas.length === 0) return pass("ZIP_UNRESTRICTED", details);
+    if (!application.zip) return review("ZIP_MISSING", details);
+    switch (matchServiceArea(application.zip, location, allowedZips, areas)) {
+      case "NotAllowed": return fail("ZIP_NOT_ALLOWED", details);
+      case "Unknown": return review("ZIP_AREA_UNKNOWN", details);
+      default: return pass("ZIP_ALLOWED", details);
+    }
+  },
+};
+
+export const residenceTypeRule: EligibilityRule = {
+  id: "residenceType",
+  evaluate({ program, application }) {
+    const allowed = parseJsonArray(program.residenceTypes);
+    const details = { inputs: { residenceType: application.residenceType }, threshold: { allowedResidenceTypes: allowed } };
+    if (allowed.length === 0) return pass("RESIDENCE_TYPE_UNRESTRICTED", details);
+    if (!application.residenceType) return review("RESIDENCE_TYPE_MISSING", details);
+    return allowed.includes(application.residenceType)
+      ? pass("RESIDENCE_TYPE_ALLOWED", details)
+      : fail("RESIDENCE_TYPE_NOT_ALLOWED", details);
+  },
+};
+
+export const propertyTypeRule: EligibilityRule = {
+  id: "propertyType",
+  evaluate({ program, application }) {
+    const allowed = parseJsonArray(program.propertyTypes);
+    const details = { inputs: { propertyType: application.propertyType }, threshold: { allowedPropertyTypes: allowed } };
+    if (allowed.length === 0) return pass("PROPERTY_TYPE_UNRESTRICTED", details);
+    if (!application.propertyType) return review("PROPERTY_TYPE_MISSING", details);
+    return allowed.includes(application.propertyType)
+      ? pass("PROPERTY_TYPE_ALLOWED", details)
+      : fail("PROPERTY_TYPE_NOT_ALLOWED", details);
+  },
+};
+
+export const criteriaRule: EligibilityRule = {
+  id: "criteria",
+  evaluate({ program, application, incomeLineItems, asOf }) {
+    const criteria = parseCriteria(program.criteria);
+    const facts = {
+      state: application.state,
+      householdSize: application.householdSize,
+      applicantDateOfBirth: application.applicantDateOfBirth,
+      incomeSources: incomeLineItems.length > 0 ? Array.from(new Set(incomeLineItems.map(i => i.sourceType))) : null,
+    };
+    const outcomes = criteria.map(c => evaluateCriterion(c, facts, asOf));
+    const details = {
+      inputs: {
+        state: facts.state,
+        householdSize: facts.householdSize,
+        applicantAge: facts.applicantDateOfBirth ? applicantAge(facts.applicantDateOfBirth, asOf) : null,
+        incomeSources: facts.incomeSources,
+        unmetConditions: criteria.filter((_, i) => outcomes[i] === "NotMet").map(describeCriterion),
+      },
+      threshold: { conditions: criteria.map(describeCriterion) },
+    };
+    if (criteria.length === 0) return pass("NO_CRITERIA", details);
+    if (outcomes.includes("NotMet")) return fail("CRITERIA_NOT_MET", details);
+    if (outcomes.includes("Missing")) return review("CRITERIA_DATA_MISSING", details);
+    return pass("CRITERIA_MET", details);
+  },
+};
+
+export const categoricalRule: EligibilityRule = {
+  id: "categorical",
+  evaluate({ program, application, documents }) {
+    const claimed = getClaimedCategoricalPrograms(program, application);
+    const provided = providedRequirements(documents);
+    const proven = claimed.filter(e => provided.has(categoricalProofRequirement(e)));
+    const details = {
+      inputs: { claimedEnrollments: parseJsonArray(application.categoricalEnrollments), proofProvidedFor: proven },
+      threshold: { acceptedPrograms: parseJsonArray(program.categoricalPrograms) },
+    };
+    if (claimed.length === 0) return pass("CATEGORICAL_NOT_CLAIMED", details);
+    // Proof of any one accepted enrollment is enough
+    return proven.length > 0
+      ? pass("CATEGORICAL_PROOF_PROVIDED", details)
+      : review("CATEGORICAL_PROOF_MISSING", details);
+  },
+};
+
+export const incomeLimitRule: EligibilityRule = {
+  id: "incomeLimit",
+  evaluate({ program, application, incomeLimit }) {
+    const tiers = parseIncomeTiers(program.incomeTiers);
+    const details = {
+      inputs: { householdSize: application.householdSize, annualIncomeCents: application.annualIncomeCents },
+      threshold: {
+        limitCents: incomeLimit?.limitCents ?? null,
+        limitSource: incomeLimit?.ruleVersion ?? null,
+        limitExtrapolated: incomeLimit?.extrapolated ?? false,
+        tiers: tiers.map(t => `${t.name}: ${t.percentOfLimit}% of limit`),
+      },
+    };
+
+    // Categorical enrollment qualifies regardless of income; the categorical rule checks proof
+    if (getClaimedCategoricalPrograms(program, application).length > 0) {
+      return pass("INCOME_WAIVED_CATEGORICAL", details);
+    }
+    if (!application.householdSize || application.annualIncomeCents === null) {
+      return review("INCOME_DATA_MISSING", details);
+    }
+    if (!incomeLimit) return review("LIMIT_NOT_FOUND", details);
+
+    // With tiers, the widest tier is the effective ceiling
+    if (tiers.length > 0) {
+      return assignIncomeTier(application.annualIncomeCents, incomeLimit.limitCents, tiers)
+        ? pass("INCOME_WITHIN_TIER", details)
+        : fail("INCOME_OVER_LIMIT", details);
+    }
+    return application.annualIncomeCents <= incomeLimit.limitCents
+      ? pass("INCOME_WITHIN_LIMIT", details)
+      : fail("INCOME_OVER_LIMIT", details);
+  },
+};
+
+export const requiredDocumentsRule: EligibilityRule = {
+  id: "requiredDocuments",
+  evaluate({ program, application, documents }) {
+    const required = getRequiredDocuments(program, application);
+    const provided = providedRequirements(documents);
+    const details = {
+      inputs: { providedDocuments: required.filter(req => provided.has(req)) },
+      threshold: { requiredDocuments: required },
+    };
+    if (required.length === 0) return pass("NO_DOCUMENTS_REQUIRED", details);
+    return required.every(req => provided.has(req))
+      ? pass("DOCUMENTS_PROVIDED", details)
+      : review("DOCUMENTS_MISSING", details);
+  },
+};
+
+// Evaluated in order; every rule runs so the full set of reasons is available.
+export const defaultRules: EligibilityRule[] = [
+  effectiveDatesRule,
+  zipCodeRule,
+  residenceTypeRule,
+  propertyTypeRule,
+  criteriaRule,
+  categoricalRule,
+  incomeLimitRule,
+  requiredDocumentsRule,
+];
+
+// Documents can't exist before an application does, so pre-screens skip the required
+// documents rule. Claimed enrollments still need proof and come back as needing review.
+export const prescreenRules: EligibilityRule[] = defaultRules.filter(rule => rule !== requiredDocumentsRule);
+
+// Any failing rule makes the application NotEligible; otherwise any rule
+// needing review makes it NeedsReview.
+export function combineResults(results: RuleResult[]): SystemResult {
+  if (results.some(r => r.outcome === "Fail")) return "NotEligible";
+  if (results.some(r => r.outcome === "NeedsReview")) return "NeedsReview";
+  return "Eligible";
+}
+
+export function evaluateEligibility(
+  ctx: EligibilityContext,
+  rules: EligibilityRule[] = defaultRules
+): EligibilityEvaluation {
+  const results = rules.map(rule => ({ rule: rule.id, ...rule.evaluate(ctx) }));
+  const systemResult = combineResults(results);
+  const { program, application, incomeLimit } = ctx;
+
+  const tier = systemResult !== "NotEligible" && incomeLimit && application.annualIncomeCents !== null
+    ? assignIncomeTier(application.annualIncomeCents, incomeLimit.limitCents, parseIncomeTiers(program.incomeTiers))
+    : undefined;
+  const categorical = getClaimedCategoricalPrograms(program, application).length > 0;
+  const eligibilityPath = systemResult === "NotEligible" ? null : categorical ? "Categorical" : "Income";
+
+  return {
+    systemResult,
+    computedLimitCents: incomeLimit?.limitCents ?? null,
+    limitExtrapolated: incomeLimit?.extrapolated ?? false,
+    incomeTier: tier?.name ?? null,
+    eligibilityPath,
+    ruleVersion: incomeLimit?.ruleVersion ?? null,
+    limitSnapshot: incomeLimit?.snapshot ?? null,
+    results,
+    trace: { evaluatedAt: ctx.asOf.toISOString(), systemResult, eligibilityPath, rules: results },
+  };
+}
+
+// The calculated fields stored on an application
+export function toApplicationUpdates(evaluation: EligibilityEvaluation): Partial<Application> {
+  return {
+    systemResult: evaluation.systemResult,
+    computedLimitCents: evaluation.computedLimitCents,
+    limitExtrapolated: evaluation.limitExtrapolated,
+    incomeTier: evaluation.incomeTier,
+    eligibilityPath: evaluation.eligibilityPath,
+    ruleVersion: evaluation.ruleVersion,
+    limitSnapshot: evaluation.limitSnapshot && JSON.stringify(evaluation.limitSnapshot),
+    eligibilityTrace: JSON.stringify(evaluation.trace),
+  };
+}
+
+function toIsoString(date: Date | string | null): string | null {
+  return date ? new Date(date).toISOString() : null;
+}
+
+// `limitVersion` replaces the version in effect, to preview a draft's impact.
+export async function resolveIncomeLimit(
+  program: Program,
+  householdSize: number,
+  zip: string | null,
+  asOf: Date,
+  limitVersion?: IncomeLimitVersion
+): Promise<ResolvedIncomeLimit | undefined> {
+  const baseSnapshot = {
+    basis: program.limitBasis,
+    householdSize,
+    incomeLimitId: null,
+    versionId: null,
+    versionLabel: null,
+    versionEffectiveStart: null,
+    versionEffectiveEnd: null,
+    amiDatasetVersion: null,
+    amiAreaName: null,
+    amiPercent: null,
+    programEffectiveStart: new Date(program.effectiveStart).toISOString(),
+    programEffectiveEnd: toIsoString(program.effectiveEnd),
+  };
+
+  if (program.limitBasis === "AMI") {
+    if (!program.amiTableId || !program.amiPercent || !zip) return undefined;
+    const table = await storage.getAmiTable(program.amiTableId);
+    const area = table && await storage.getAmiAreaForZip(table.id, zip);
+    if (!table || !area) return undefined;
+
+    const amiPercent = program.amiPercent;
+    const medians = await storage.getAmiIncomes(area.id);
+    const rows = medians.map(m => ({
+      householdSize: m.householdSize,
+      limitCents: Math.round(m.medianIncomeCents * amiPercent / 100),
+    }));
+    const lookup = lookupLimit(rows, householdSize, program);
+    return lookup && {
+      ...lookup,
+      ruleVersion: `${table.datasetVersion} ${area.areaName} ${amiPercent}% AMI`,
+      snapshot: {
+        ...baseSnapshot,
+        ...lookup,
+        amiDatasetVersion: table.datasetVersion,
+        amiAreaName: area.areaName,
+        amiPercent,
+      },
+    };
+  }
+
+  const version = limitVersion ?? await storage.getIncomeLimitVersionInEffect(program.id, asOf);
+  if (!version) return undefined;
+
+  const limits = await storage.getIncomeLimits(version.id);
+  const lookup = lookupLimit(limits, householdSize, program);
+  if (!lookup) return undefined;
+
+  // Extrapolated limits are derived from the largest row in the version
+  const source = limits.find(l => l.householdSize === householdSize)
+    ?? limits.reduce((max, l) => (l.householdSize > max.householdSize ? l : max));
+  return {
+    ...lookup,
+    ruleVersion: version.label,
+    snapshot: {
+      ...baseSnapshot,
+      ...lookup,
+      incomeLimitId: source.id,
+      versionId: version.id,
+      versionLabel: version.label,
+      versionEffectiveStart: new Date(version.effectiveStart).toISOString(),
+      versionEffectiveEnd: toIsoString(version.effectiveEnd),
+    },
+  };
+}
+
+export async function buildEligibilityContext(
+  program: Program,
+  applicant: EligibilityApplicant,
+  incomeLineItems: IncomeLineItem[],
+  documents: Document[],
+  asOf: Date,
+  limitVersion?: IncomeLimitVersion
+): Promise<EligibilityContext> {
+  const incomeLimit = applicant.householdSize
+    ? await resolveIncomeLimit(program, applicant.householdSize, applicant.zip, asOf, limitVersion)
+    : undefined;
+  return { program, application: applicant, incomeLimit, incomeLineItems, documents, asOf };
+}
+
+export async function loadEligibilityContext(
+  application: Application,
+  asOf: Date,
+  limitVersion?: IncomeLimitVersion
+): Promise<EligibilityContext | undefined> {
+  const program = await storage.getProgram(application.programId);
+  if (!program) return undefined;
+
+  const incomeLineItems = await storage.getIncomeLineItems(application.id);
+  const documents = await storage.getDocuments(application.id);
+  return buildEligibilityContext(program, application, incomeLineItems, documents, asOf, limitVersion);
+}
+
+// Applications still awaiting a decision; decided ones keep their calculation.
+export const reevaluableStatuses: Application["status"][] = ["Submitted", "NeedsInfo"];
+
+export interface Reevaluation {
+  evaluation: EligibilityEvaluation;
+  change: ReevaluationChange | null;
+}
+
+// Re-runs the rules as of the original submission, so only limit and rule
+// corrections show up rather than the program window having moved on.
+export async function reevaluateApplication(
+  application: Application,
+  limitVersion?: IncomeLimitVersion
+): Promise<Reevaluation | undefined> {
+  const ctx = await loadEligibilityContext(application, application.submittedAt ?? new Date(), limitVersion);
+  if (!ctx) return undefined;
+
+  const evaluation = evaluateEligibility(ctx);
+  const changed = evaluation.systemResult !== application.systemResult
+    || evaluation.computedLimitCents !== application.computedLimitCents
+    || evaluation.incomeTier !== application.incomeTier;
+
+  return {
+    evaluation,
+    change: changed ? {
+      applicationId: application.id,
+      applicantName: application.applicantName,
+      status: application.status,
+      previousResult: application.systemResult,
+      newResult: evaluation.systemResult,
+      previousLimitCents: application.computedLimitCents,
+      newLimitCents: evaluation.computedLimitCents,
+      previousTier: application.incomeTier,
+      newTier: evaluation.incomeTier,
+    } : null,
+  };
+}
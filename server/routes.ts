@@ -12,7 +12,23 @@ import multer from "multer";
 import path from "path";
 import fs from "fs";
 import express from "express";
-import { applicationStatuses, systemResults } from "@shared/schema";
+import {
+  evaluateEligibility, loadEligibilityContext, getMissingDocumentRequirements,
+  toApplicationUpdates, reevaluateApplication, reevaluableStatuses, buildEligibilityContext, prescreenRules
+} from "./eligibility";
+import { getDocumentRequirements, getClaimedCategoricalPrograms, parseJsonArray } from "@shared/requirements";
+import { isProgramOpen, getProgramWindowStatus, getSubmissionDeadline, type ProgramWindowStatus } from "@shared/availability";
+import { eligibilityCriteriaSchema, customFieldsSchema, customFieldValueSchema, serviceAreasSchema, programSlugSchema, categoricalProgramOptions, wizardSteps, type Application, type Program, type ProgramCapacity } from "@shared/schema";
+import {
+  currentCustomFieldValues, parseCustomFields, parseCustomFieldValues, validateCustomFieldValues, formatCustomFieldValue,
+} from "@shared/custom-fields";
+import { getProgramCapacity, holdsFundingSlot } from "@shared/capacity";
+import { slugify } from "@shared/slugs";
+import { validateLimitRows, limitTableCells } from "@shared/limit-tables";
+import { getSubmissionIssues } from "@shared/completeness";
+import { readSpreadsheet, writeCsv, writeXlsx, SpreadsheetError } from "./spreadsheets";
+import { parseServiceAreas, matchServiceArea } from "@shared/service-areas";
+import { resolveZipLocation, listCounties } from "./zip-counties";
 
 const scryptAsync = promisify(scrypt);
 
@@ -30,6 +46,105 @@ async function comparePassword(stored: string, supplied: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+function formatCents(cents: number | null) {
+  return cents === null ? "N/A" : `$${(cents / 100).toLocaleString()}`;
+}
+
+function formatDate(date: Date | string) {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+function programWindowMessage(program: Program, status: ProgramWindowStatus) {
+  if (status === "NotStarted") {
+    return `${program.name} is not accepting applications yet. It opens on ${formatDate(program.effectiveStart)}.`;
+  }
+  const deadline = getSubmissionDeadline(program);
+  return `${program.name} closed on ${formatDate(program.effectiveEnd!)}`
+    + (program.submissionGraceDays > 0 && deadline
+      ? ` and accepted drafts started before then until ${formatDate(deadline)}.`
+      : ".");
+}
+
+// Capacity for deciding `application`, which doesn't compete with the slot it already holds
+async function loadProgramCapacity(program: Program, application?: Application): Promise<ProgramCapacity> {
+  const counts = await storage.getStatusCounts(program.id);
+  return getProgramCapacity(program, counts.map(c =>
+    application && c.status === application.status && c.systemResult === application.systemResult
+      ? { ...c, count: c.count - 1 }
+      : c
+  ));
+}
+
+// Applications turning Eligible queue, in the order they get there, once the program's
+// funding is committed. One that already holds a slot keeps it.
+async function mustWaitlist(program: Program, application: Application, result: Application["systemResult"]): Promise<boolean> {
+  if (result !== "Eligible" || holdsFundingSlot(application)) return false;
+  return (await loadProgramCapacity(program)).exhausted;
+}
+
+// The first problem with a request body, in the errorSchemas.validation shape
+function validationError(error: z.ZodError): { message: string; field: string } {
+  const issue = error.issues[0];
+  if (issue.code === "unrecognized_keys") {
+    return { message: `${issue.keys.join(", ")} cannot be set here`, field: issue.keys[0] };
+  }
+  return { message: issue.message, field: issue.path.join(".") };
+}
+
+// Structured program settings are stored as JSON strings, so reject anything
+// the engine or wizard couldn't read. Returns an error message, if any.
+function validateJsonColumn(value: unknown, schema: z.ZodTypeAny, label: string): string | null {
+  if (value === undefined) return null;
+  if (typeof value !== "string") return `${label} must be a JSON string`;
+  try {
+    const parsed = schema.safeParse(JSON.parse(value));
+    return parsed.success ? null : `Invalid ${label.toLowerCase()}: ${parsed.error.issues[0].message}`;
+  } catch {
+    return `${label} must be valid JSON`;
+  }
+}
+
+function validateProgramJson(body: Record<string, unknown>): { message: string; field: string } | null {
+  const columns = [
+    { field: "criteria", schema: eligibilityCriteriaSchema, label: "Eligibility criteria" },
+    { field: "customFields", schema: customFieldsSchema, label: "Custom fields" },
+    { field: "serviceAreas", schema: serviceAreasSchema, label: "Service areas" },
+  ];
+  for (const { field, schema, label } of columns) {
+    const message = validateJsonColumn(body[field], schema, label);
+    if (message) return { message, field };
+  }
+  return null;
+}
+
+// First free slug for a name: "heating-aid", then "heating-aid-2", ...
+async function uniqueProgramSlug(name: string): Promise<string> {
+  const base = slugify(name) || "program";
+  for (let n = 1; ; n++) {
+    const slug = n === 1 ? base : `${base}-${n}`;
+    if (!(await storage.getProgramBySlug(slug))) return slug;
+  }
+}
+
+// A blank slug is replaced with one from the name; one held by another program is a conflict.
+async function prepareProgramSlug(
+  body: Record<string, any>,
+  existing?: Program
+): Promise<{ status: 400 | 409; message: string } | null> {
+  if (body.slug === undefined && existing) return null;
+  if (!body.slug) {
+    body.slug = await uniqueProgramSlug(body.name ?? existing?.name ?? "");
+    return null;
+  }
+  const parsed = programSlugSchema.safeParse(body.slug);
+  if (!parsed.success) return { status: 400, message: parsed.error.issues[0].message };
+  const holder = await storage.getProgramBySlug(parsed.data);
+  if (holder && holder.id !== existing?.id) {
+    return { status: 409, message: `The link "${parsed.data}" is already used by ${holder.name}` };
+  }
+  return null;
+}
+
 // --- FILE UPLOAD SETUP ---
 const uploadDir = path.join(process.cwd(), "uploads");
 if (!fs.existsSync(uploadDir)) {
@@ -46,6 +161,8 @@ const storageConfig = multer.diskStorage({
   }
 });
 const upload = multer({ storage: storageConfig });
+// Limit table imports are parsed in memory and never kept
+const sheetUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 5 * 1024 * 1024 } });
 
 export async function registerRoutes(
   httpServer: Server,
@@ -128,15 +245,32 @@ export async function registerRoutes(
   // Programs
   app.get(api.programs.list.path, async (req, res) => {
     const programs = await storage.getPrograms();
-    res.json(programs);
+    // The public only sees programs currently taking applications
+    const includeClosed = req.isAuthenticated() && req.query.includeClosed === "true";
+    res.json(includeClosed ? programs : programs.filter(p => !p.archivedAt && isProgramOpen(p)));
   });
 
   app.post(api.programs.create.path, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    const program = await storage.createProgram(req.body);
+    const parsed = api.programs.create.input.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json(validationError(parsed.error));
+    const input = parsed.data;
+    const jsonError = validateProgramJson(input);
+    if (jsonError) return res.status(400).json(jsonError);
+    const slugError = await prepareProgramSlug(input);
+    if (slugError) return res.status(slugError.status).json({ message: slugError.message, field: "slug" });
+    const program = await storage.createProgram(input);
     res.status(201).json(program);
   });
   
+  // Registered before the :id route so "capacity" isn't read as a program id
+  app.get(api.programs.capacity.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const programs = await storage.getPrograms();
+    const counts = await storage.getStatusCounts();
+    res.json(programs.map(program => getProgramCapacity(program, counts.filter(c => c.programId === program.id))));
+  });
+
   app.get(api.programs.get.path, async (req, res) => {
     const program = await storage.getProgram(Number(req.params.id));
     if (!program) return res.sendStatus(404);
@@ -145,11 +279,27 @@ export async function registerRoutes(
 
   app.patch(api.programs.update.path, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    const program = await storage.updateProgram(Number(req.params.id), req.body);
+    const parsed = api.programs.update.input.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json(validationError(parsed.error));
+    const input = parsed.data;
+    const jsonError = validateProgramJson(input);
+    if (jsonError) return res.status(400).json(jsonError);
+    const existing = await storage.getProgram(Number(req.params.id));
+    if (!existing) return res.sendStatus(404);
+    const slugError = await prepareProgramSlug(input, existing);
+    if (slugError) return res.status(slugError.status).json({ message: slugError.message, field: "slug" });
+    const program = await storage.updateProgram(existing.id, input);
     if (!program) return res.sendStatus(404);
     res.json(program);
   });
 
+  // Public landing page data; archived programs are gone from the public site
+  app.get(api.programs.getBySlug.path, async (req, res) => {
+    const program = await storage.getProgramBySlug(req.params.slug);
+    if (!program || program.archivedAt) return res.status(404).json({ message: "Program not found" });
+    res.json(program);
+  });
+
   app.post(api.programs.validateZip.path, async (req, res) => {
     const { programId, zipCode } = req.body;
     const program = await storage.getProgram(programId);
@@ -158,7 +308,8 @@ export async function registerRoutes(
 
     try {
       const allowedZips = JSON.parse(program.allowedZipCodes || "[]");
-      const isValid = allowedZips.length === 0 || allowedZips.includes(zipCode);
+      // An unresolvable county isn't rejected here; the submit check sends it to review
+      const isValid = matchServiceArea(zipCode, resolveZipLocation(zipCode), allowedZips, parseServiceAreas(program.serviceAreas)) !== "NotAllowed";
 
       res.json({
         valid: isValid,
@@ -169,38 +320,393 @@ export async function registerRoutes(
     }
   });
 
+  app.get(api.serviceAreas.counties.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    res.json(listCounties());
+  });
+
+  app.post(api.programs.archive.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const program = await storage.updateProgram(Number(req.params.id), { archivedAt: new Date() });
+    if (!program) return res.status(404).json({ message: "Program not found" });
+    res.json(program);
+  });
+
+  app.post(api.programs.unarchive.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const program = await storage.updateProgram(Number(req.params.id), { archivedAt: null });
+    if (!program) return res.status(404).json({ message: "Program not found" });
+    res.json(program);
+  });
+
+  app.delete(api.programs.delete.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const program = await storage.getProgram(Number(req.params.id));
+    if (!program) return res.status(404).json({ message: "Program not found" });
+    // Applications reference the program for their whole review history
+    if (await storage.hasApplications(program.id)) {
+      return res.status(409).json({ message: "Programs with applications cannot be deleted. Archive it instead." });
+    }
+
+    await storage.deleteProgram(program.id);
+    res.sendStatus(204);
+  });
+
+  app.post(api.programs.duplicate.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = api.programs.duplicate.input.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json(validationError(parsed.error));
+
+    const source = await storage.getProgram(Number(req.params.id));
+    if (!source) return res.status(404).json({ message: "Program not found" });
+
+    const { id, createdAt, archivedAt, ...settings } = source;
+    const { upliftPercent, ...overrides } = parsed.data;
+    const program = await storage.duplicateProgram(
+      source.id,
+      { ...settings, ...overrides, slug: await uniqueProgramSlug(overrides.name), effectiveEnd: overrides.effectiveEnd ?? null },
+      upliftPercent
+    );
+    res.status(201).json(program);
+  });
+
+  app.post(api.programs.reevaluate.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const user = req.user as any;
+    const parsed = api.programs.reevaluate.input.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json(validationError(parsed.error));
+    const { apply } = parsed.data;
+
+    const program = await storage.getProgram(Number(req.params.id));
+    if (!program) return res.status(404).json({ message: "Program not found" });
+
+    // In submission order, so earlier applications are first to any remaining funding
+    const pending = (await storage.getApplications({ programId: program.id }))
+      .filter(a => reevaluableStatuses.includes(a.status))
+      .sort((a, b) => (a.submittedAt?.getTime() ?? 0) - (b.submittedAt?.getTime() ?? 0));
+
+    const changes = [];
+    for (const application of pending) {
+      const reevaluation = await reevaluateApplication(application);
+      if (!reevaluation?.change) continue;
+      const { evaluation, change } = reevaluation;
+      changes.push(change);
+
+      if (apply) {
+        const waitlisted = await mustWaitlist(program, application, evaluation.systemResult);
+        await storage.updateApplication(application.id, {
+          ...toApplicationUpdates(evaluation),
+          ...(waitlisted ? { status: "Waitlisted" as const } : {}),
+        });
+        await storage.createActivityEvent({
+          applicationId: application.id,
+          type: "System",
+          message: `Eligibility re-evaluated: ${change.previousResult ?? "None"} -> ${change.newResult}. `
+            + `Income limit: ${formatCents(change.previousLimitCents)} -> ${formatCents(change.newLimitCents)}`
+            + (change.previousTier !== change.newTier ? `. Income tier: ${change.previousTier ?? "None"} -> ${change.newTier ?? "None"}` : "")
+            + (waitlisted ? ". Waitlisted: program funding is fully committed" : ""),
+          createdByUserId: user.id
+        });
+      }
+    }
+
+    res.json({ applied: apply, evaluated: pending.length, changes });
+  });
+
+  // Limit Versions
+  app.get(api.limitVersions.list.path, async (req, res) => {
+    const versions = await storage.getIncomeLimitVersions(Number(req.params.id));
+    res.json(versions);
+  });
+
+  app.post(api.limitVersions.create.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = api.limitVersions.create.input.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json(validationError(parsed.error));
+    const { copyFromVersionId, ...input } = parsed.data;
+    if (copyFromVersionId !== undefined) {
+      const source = await storage.getIncomeLimitVersion(copyFromVersionId);
+      if (!source || source.programId !== Number(req.params.id)) {
+        return res.status(400).json({ message: "The version to copy was not found in this program", field: "copyFromVersionId" });
+      }
+    }
+    const version = await storage.createIncomeLimitVersion(
+      { ...input, programId: Number(req.params.id) },
+      copyFromVersionId
+    );
+    res.status(201).json(version);
+  });
+
+  app.patch(api.limitVersions.update.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const version = await storage.getIncomeLimitVersion(Number(req.params.versionId));
+    if (!version || version.programId !== Number(req.params.id)) return res.sendStatus(404);
+    if (version.status === "Published") {
+      return res.status(409).json({ message: "Published limit versions cannot be edited" });
+    }
+
+    const parsed = api.limitVersions.update.input.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json(validationError(parsed.error));
+    const updated = await storage.updateIncomeLimitVersion(version.id, parsed.data);
+    res.json(updated);
+  });
+
+  app.post(api.limitVersions.publish.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const version = await storage.getIncomeLimitVersion(Number(req.params.versionId));
+    if (!version || version.programId !== Number(req.params.id)) return res.sendStatus(404);
+    if (version.status === "Published") {
+      return res.status(409).json({ message: "Limit version is already published" });
+    }
+
+    const limits = await storage.getIncomeLimits(version.id);
+    if (limits.length === 0) {
+      return res.status(409).json({ message: "Cannot publish a limit version with no limits" });
+    }
+
+    const updated = await storage.updateIncomeLimitVersion(version.id, {
+      status: "Published",
+      publishedAt: new Date()
+    });
+    res.json(updated);
+  });
+
+  app.delete(api.limitVersions.delete.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const version = await storage.getIncomeLimitVersion(Number(req.params.versionId));
+    if (!version || version.programId !== Number(req.params.id)) return res.sendStatus(404);
+    if (version.status === "Published") {
+      return res.status(409).json({ message: "Published limit versions cannot be deleted" });
+    }
+
+    await storage.deleteIncomeLimitVersion(version.id);
+    res.sendStatus(204);
+  });
+
+  app.post(api.limitVersions.parseImport.path, sheetUpload.single("file"), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (!req.file) return res.status(400).json({ message: "No file uploaded", field: "file" });
+    try {
+      res.json({ cells: readSpreadsheet(req.file.buffer, req.file.originalname) });
+    } catch (error) {
+      // Truncated archives surface as zlib or buffer range errors
+      const message = error instanceof SpreadsheetError ? error.message : "The file could not be read";
+      res.status(400).json({ message, field: "file" });
+    }
+  });
+
+  app.post(api.limitVersions.import.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = api.limitVersions.import.input.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json(validationError(parsed.error));
+
+    const { limits, ...version } = parsed.data;
+    const [problem] = validateLimitRows(limits);
+    if (problem) return res.status(400).json({ message: problem.message, field: "limits" });
+
+    const created = await storage.importIncomeLimitVersion({ ...version, programId: Number(req.params.id) }, limits);
+    res.status(201).json(created);
+  });
+
+  // Dry run only: scores each pending application against this version instead of
+  // the one in effect, and keeps the ones whose system result moves.
+  app.get(api.limitVersions.impact.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const program = await storage.getProgram(Number(req.params.id));
+    const version = await storage.getIncomeLimitVersion(Number(req.params.versionId));
+    if (!program || !version || version.programId !== program.id) {
+      return res.status(404).json({ message: "Limit version not found" });
+    }
+    if (program.limitBasis === "AMI") {
+      return res.status(409).json({ message: "AMI-based programs don't use limit versions" });
+    }
+
+    const pending = (await storage.getApplications({ programId: program.id }))
+      .filter(a => reevaluableStatuses.includes(a.status));
+    const changes = [];
+    for (const application of pending) {
+      const change = (await reevaluateApplication(application, version))?.change;
+      if (change && change.newResult !== change.previousResult) changes.push(change);
+    }
+    res.json({ evaluated: pending.length, changes });
+  });
+
+  app.get(api.limitVersions.export.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const version = await storage.getIncomeLimitVersion(Number(req.params.versionId));
+    if (!version || version.programId !== Number(req.params.id)) {
+      return res.status(404).json({ message: "Limit version not found" });
+    }
+
+    const cells = limitTableCells(await storage.getIncomeLimits(version.id));
+    const filename = `income-limits-${version.label.replace(/[^\w.-]+/g, "-")}`;
+    if (req.query.format === "xlsx") {
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.xlsx"`);
+      return res.send(writeXlsx(cells));
+    }
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+    res.send(writeCsv(cells));
+  });
+
   // Limits
   app.get(api.incomeLimits.list.path, async (req, res) => {
-    const limits = await storage.getIncomeLimits(Number(req.params.id));
+    const limits = await storage.getIncomeLimits(Number(req.params.versionId));
     res.json(limits);
   });
   
   app.post(api.incomeLimits.create.path, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
+    const version = await storage.getIncomeLimitVersion(Number(req.params.versionId));
+    if (!version || version.programId !== Number(req.params.id)) return res.sendStatus(404);
+    if (version.status === "Published") {
+      return res.status(409).json({ message: "Published limit versions cannot be edited" });
+    }
+
+    const parsed = api.incomeLimits.create.input.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json(validationError(parsed.error));
     const limit = await storage.createIncomeLimit({
-      ...req.body,
-      programId: Number(req.params.id)
+      ...parsed.data,
+      programId: version.programId,
+      versionId: version.id
     });
     res.status(201).json(limit);
   });
 
   app.patch(api.incomeLimits.update.path, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    const limit = await storage.updateIncomeLimit(Number(req.params.limitId), req.body);
+    const existing = await storage.getIncomeLimit(Number(req.params.limitId));
+    if (!existing || existing.programId !== Number(req.params.id)) return res.sendStatus(404);
+    const version = await storage.getIncomeLimitVersion(existing.versionId);
+    if (version?.status === "Published") {
+      return res.status(409).json({ message: "Published limit versions cannot be edited" });
+    }
+
+    const parsed = api.incomeLimits.update.input.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json(validationError(parsed.error));
+    const limit = await storage.updateIncomeLimit(existing.id, parsed.data);
     if (!limit) return res.sendStatus(404);
     res.json(limit);
   });
 
   app.delete(api.incomeLimits.delete.path, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    await storage.deleteIncomeLimit(Number(req.params.limitId));
+    const existing = await storage.getIncomeLimit(Number(req.params.limitId));
+    if (!existing || existing.programId !== Number(req.params.id)) return res.sendStatus(404);
+    const version = await storage.getIncomeLimitVersion(existing.versionId);
+    if (version?.status === "Published") {
+      return res.status(409).json({ message: "Published limit versions cannot be edited" });
+    }
+
+    await storage.deleteIncomeLimit(existing.id);
+    res.sendStatus(204);
+  });
+
+  // Area Median Income Tables
+  app.get(api.amiTables.list.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const tables = await storage.getAmiTables();
+    res.json(tables);
+  });
+
+  app.post(api.amiTables.create.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = api.amiTables.create.input.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json(validationError(parsed.error));
+    const input = parsed.data;
+    const table = await storage.createAmiTable(input);
+    res.status(201).json(table);
+  });
+
+  app.get(api.amiTables.get.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const table = await storage.getAmiTable(Number(req.params.id));
+    if (!table) return res.sendStatus(404);
+
+    const areas = await storage.getAmiAreas(table.id);
+    const areasWithIncomes = await Promise.all(areas.map(async (area) => {
+      const incomes = await storage.getAmiIncomes(area.id);
+      return { ...area, incomes };
+    }));
+
+    res.json({ ...table, areas: areasWithIncomes });
+  });
+
+  app.post(api.amiTables.createArea.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const table = await storage.getAmiTable(Number(req.params.id));
+    if (!table) return res.sendStatus(404);
+
+    const parsed = api.amiTables.createArea.input.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json(validationError(parsed.error));
+    const input = parsed.data;
+    const area = await storage.createAmiArea({
+      amiTableId: table.id,
+      areaName: input.areaName,
+      zipCodes: JSON.stringify(input.zipCodes),
+    }, input.incomes);
+    res.status(201).json(area);
+  });
+
+  app.delete(api.amiTables.deleteArea.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const area = await storage.getAmiArea(Number(req.params.areaId));
+    if (!area || area.amiTableId !== Number(req.params.id)) return res.sendStatus(404);
+    await storage.deleteAmiArea(area.id);
     res.sendStatus(204);
   });
 
   // Applications (Public)
+  app.post(api.applications.prescreen.path, async (req, res) => {
+    const parsed = api.applications.prescreen.input.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json(validationError(parsed.error));
+
+    const { programId, categoricalEnrollments, ...applicant } = parsed.data;
+    const program = await storage.getProgram(programId);
+    if (!program || program.archivedAt) return res.status(404).json({ message: "Program not found" });
+
+    // Same engine and limits as submit, minus the document checks. Criteria on
+    // facts the pre-screen doesn't ask for (state, age, income sources) come back as needing review.
+    const ctx = await buildEligibilityContext(
+      program,
+      {
+        ...applicant,
+        categoricalEnrollments: JSON.stringify(categoricalEnrollments),
+        state: null,
+        applicantDateOfBirth: null,
+        createdAt: new Date(),
+      },
+      [],
+      [],
+      new Date()
+    );
+    const evaluation = evaluateEligibility(ctx, prescreenRules);
+
+    res.json({
+      systemResult: evaluation.systemResult,
+      limitCents: evaluation.computedLimitCents,
+      limitExtrapolated: evaluation.limitExtrapolated,
+      incomeTier: evaluation.incomeTier,
+      results: evaluation.results,
+    });
+  });
+
   app.post(api.applications.start.path, async (req, res) => {
     const token = randomBytes(16).toString("hex");
-    const input = api.applications.start.input.parse(req.body);
+    const parsed = api.applications.start.input.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json(validationError(parsed.error));
+    const input = parsed.data;
+
+    const program = await storage.getProgram(input.programId);
+    if (!program) return res.status(404).json({ message: "Program not found" });
+    if (program.archivedAt) {
+      return res.status(400).json({ message: `${program.name} is no longer accepting applications.`, field: "programId" });
+    }
+    const windowStatus = getProgramWindowStatus(program, new Date());
+    if (windowStatus !== "Open") {
+      return res.status(400).json({ message: programWindowMessage(program, windowStatus), field: "programId" });
+    }
     
     // Create Draft
     const app = await storage.createApplication({
@@ -222,10 +728,13 @@ export async function registerRoutes(
     const app = await storage.getApplicationByToken(req.params.token);
     if (!app) return res.sendStatus(404);
     
+    const incomeLineItems = await storage.getIncomeLineItems(app.id);
     const documents = await storage.getDocuments(app.id);
     const activityEvents = await storage.getActivityEvents(app.id);
+    const program = await storage.getProgram(app.programId);
+    const trace = app.eligibilityTrace ? JSON.parse(app.eligibilityTrace) : null;
     
-    res.json({ ...app, documents, activityEvents });
+    res.json({ ...app, incomeLineItems, documents, activityEvents, program: program!, trace });
   });
 
   app.patch(api.applications.updateByToken.path, async (req, res) => {
@@ -237,20 +746,80 @@ export async function registerRoutes(
       return res.status(403).json({ message: "Cannot edit submitted application" });
     }
 
-    const updated = await storage.updateApplication(app.id, req.body);
+    const parsed = api.applications.updateByToken.input.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json(validationError(parsed.error));
+    const { expectedUpdatedAt, ...updates } = parsed.data;
+
+    if (expectedUpdatedAt && app.updatedAt && app.updatedAt.getTime() !== expectedUpdatedAt.getTime()) {
+      return res.status(409).json({ message: "This application was changed somewhere else since you opened it" });
+    }
+
+    // The resume point only moves forward, so going Back and then Next keeps it
+    if (updates.lastCompletedStep && app.lastCompletedStep
+      && wizardSteps.indexOf(app.lastCompletedStep) > wizardSteps.indexOf(updates.lastCompletedStep)) {
+      updates.lastCompletedStep = app.lastCompletedStep;
+    }
+
+    const enrollmentError = validateJsonColumn(
+      updates.categoricalEnrollments, z.array(z.enum(categoricalProgramOptions)), "Categorical enrollments"
+    );
+    if (enrollmentError) return res.status(400).json({ message: enrollmentError, field: "categoricalEnrollments" });
+
+    if (updates.customFieldValues !== undefined) {
+      const jsonError = validateJsonColumn(updates.customFieldValues, z.record(customFieldValueSchema), "Custom field values");
+      if (jsonError) return res.status(400).json({ message: jsonError, field: "customFieldValues" });
+      const program = await storage.getProgram(app.programId);
+      const customFields = parseCustomFields(program?.customFields);
+      const values = currentCustomFieldValues(customFields, parseCustomFieldValues(updates.customFieldValues));
+      const error = validateCustomFieldValues(customFields, values);
+      if (error) return res.status(400).json({ message: error.message, field: `customFieldValues.${error.key}` });
+      updates.customFieldValues = JSON.stringify(values);
+    }
+
+    const updated = await storage.updateApplication(app.id, updates);
     res.json(updated);
   });
 
+  app.put(api.applications.replaceIncomeByToken.path, async (req, res) => {
+    const app = await storage.getApplicationByToken(req.params.token);
+    if (!app) return res.sendStatus(404);
+
+    if (app.status !== "Draft" && app.status !== "NeedsInfo") {
+      return res.status(403).json({ message: "Cannot edit submitted application" });
+    }
+
+    const parsed = api.applications.replaceIncomeByToken.input.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json(validationError(parsed.error));
+    const { items, expectedUpdatedAt } = parsed.data;
+    if (expectedUpdatedAt && app.updatedAt && app.updatedAt.getTime() !== expectedUpdatedAt.getTime()) {
+      return res.status(409).json({ message: "This application was changed somewhere else since you opened it" });
+    }
+
+    const incomeLineItems = await storage.replaceIncomeLineItems(app.id, items);
+    const updated = await storage.getApplication(app.id);
+
+    res.json({ incomeLineItems, annualIncomeCents: updated!.annualIncomeCents, updatedAt: updated!.updatedAt });
+  });
+
   app.post('/api/applications/by-token/:token/upload', upload.single('file'), async (req, res) => {
     const app = await storage.getApplicationByToken(req.params.token);
     if (!app || !req.file) return res.sendStatus(400);
 
+    const requirement = req.body.requirement || null;
+    if (requirement) {
+      const program = await storage.getProgram(app.programId);
+      if (!program || !getDocumentRequirements(program, app).includes(requirement)) {
+        return res.status(400).json({ message: "Unknown document requirement", field: "requirement" });
+      }
+    }
+
     const doc = await storage.createDocument({
       applicationId: app.id,
       filename: req.file.originalname,
       path: req.file.path,
       mimeType: req.file.mimetype,
-      sizeBytes: req.file.size
+      sizeBytes: req.file.size,
+      requirement
     });
 
     res.json(doc);
@@ -259,43 +828,58 @@ export async function registerRoutes(
   app.post(api.applications.submitByToken.path, async (req, res) => {
     const app = await storage.getApplicationByToken(req.params.token);
     if (!app) return res.sendStatus(404);
+    if (app.status !== "Draft" && app.status !== "NeedsInfo") {
+      return res.status(403).json({ message: "This application has already been submitted" });
+    }
 
-    // Calculate Eligibility
-    let result: typeof systemResults[number] = "NeedsReview";
-    let computedLimitCents = null;
-    let ruleVersion = null;
-
-    if (app.householdSize && app.annualIncomeCents !== null) {
-      const limit = await storage.getIncomeLimitForHousehold(app.programId, app.householdSize);
-      if (limit) {
-        computedLimitCents = limit.limitCents;
-        ruleVersion = limit.versionLabel;
-        
-        if (app.annualIncomeCents <= limit.limitCents) {
-           // For MVP, if income is under limit, assume eligible (reviewer checks docs)
-           result = "Eligible";
-        } else {
-           result = "NotEligible";
-        }
-      }
+    const submittedAt = new Date();
+    const ctx = await loadEligibilityContext(app, submittedAt);
+    if (!ctx) return res.sendStatus(404);
+
+    const windowStatus = getProgramWindowStatus(ctx.program, submittedAt, app.createdAt);
+    if (windowStatus === "NotStarted" || windowStatus === "Closed") {
+      return res.status(400).json({ message: programWindowMessage(ctx.program, windowStatus) });
+    }
+
+    const zipMatch = app.zip ? matchServiceArea(
+      app.zip,
+      resolveZipLocation(app.zip),
+      parseJsonArray(ctx.program.allowedZipCodes),
+      parseServiceAreas(ctx.program.serviceAreas)
+    ) : null;
+    const issues = getSubmissionIssues(ctx.program, app, zipMatch);
+    if (issues.length > 0) {
+      return res.status(400).json({
+        message: issues.length === 1 ? issues[0].message : `${issues.length} answers need attention before you can submit`,
+        field: issues[0].field,
+        issues,
+      });
     }
 
+    const evaluation = evaluateEligibility(ctx);
+    const result = evaluation.systemResult;
+    const missingDocuments = getMissingDocumentRequirements(ctx.program, app, ctx.documents);
+    const waitlisted = await mustWaitlist(ctx.program, app, result);
+
     const updated = await storage.updateApplication(app.id, {
-      status: "Submitted",
-      submittedAt: new Date(),
-      systemResult: result,
-      computedLimitCents,
-      ruleVersion
+      status: waitlisted ? "Waitlisted" : "Submitted",
+      submittedAt,
+      ...toApplicationUpdates(evaluation)
     });
 
     await storage.createActivityEvent({
       applicationId: app.id,
       type: "System",
-      message: `Application submitted. System calculation: ${result}`,
+      message: `Application submitted. System calculation: ${result}`
+        + (evaluation.eligibilityPath === "Categorical"
+          ? ` via categorical eligibility (${getClaimedCategoricalPrograms(ctx.program, app).join(", ")})`
+          : "")
+        + (missingDocuments.length > 0 ? `. Missing documents: ${missingDocuments.join(", ")}` : "")
+        + (waitlisted ? ". Waitlisted: program funding is fully committed" : ""),
       createdByUserId: null
     });
 
-    res.json(updated);
+    res.json({ ...updated, missingDocuments });
   });
 
   // Applications (Reviewer)
@@ -325,6 +909,7 @@ export async function registerRoutes(
     const app = await storage.getApplication(Number(req.params.id));
     if (!app) return res.sendStatus(404);
     
+    const incomeLineItems = await storage.getIncomeLineItems(app.id);
     const documents = await storage.getDocuments(app.id);
     const activityEvents = await storage.getActivityEvents(app.id);
     const program = await storage.getProgram(app.programId);
@@ -338,28 +923,43 @@ export async function registerRoutes(
       return { ...ev, user };
     }));
 
-    // Get the limit snapshot used
-    let incomeLimitSnapshot = null;
-    if (app.householdSize) {
-        incomeLimitSnapshot = await storage.getIncomeLimitForHousehold(app.programId, app.householdSize);
-    }
+    // The limit captured at submission, not whatever the limits say today
+    const incomeLimitSnapshot = app.limitSnapshot ? JSON.parse(app.limitSnapshot) : null;
+    // Rule-by-rule record of how the system result was reached
+    const trace = app.eligibilityTrace ? JSON.parse(app.eligibilityTrace) : null;
 
     res.json({ 
       ...app, 
+      incomeLineItems,
       documents, 
       activityEvents: eventsWithUsers, 
       program: program!,
-      incomeLimitSnapshot 
+      incomeLimitSnapshot,
+      trace
     });
   });
 
   app.post(api.applications.decision.path, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     const user = req.user as any;
-    const { status, note } = req.body;
-    
+    const parsed = api.applications.decision.input.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json(validationError(parsed.error));
+    const { status, note } = parsed.data;
+
     const app = await storage.getApplication(Number(req.params.id));
     if (!app) return res.sendStatus(404);
+
+    // Leaving the waitlist goes through promote, which keeps submission order
+    if (app.status === "Waitlisted" && status !== "Denied") {
+      return res.status(409).json({ message: "Waitlisted applications are promoted in submission order. Promote it from the waitlist first." });
+    }
+
+    if (status === "Approved" && app.status !== "Approved") {
+      const program = await storage.getProgram(app.programId);
+      if (program && (await loadProgramCapacity(program, app)).exhausted) {
+        return res.status(409).json({ message: `${program.name} has no remaining funding capacity. Raise its caps before approving more households.` });
+      }
+    }
     
     await storage.updateApplication(app.id, {
       status: status,
@@ -381,27 +981,77 @@ export async function registerRoutes(
     res.json(updated);
   });
 
+  app.post(api.applications.promote.path, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const user = req.user as any;
+    if (user.role !== "Admin") {
+      return res.status(403).json({ message: "Only admins can promote waitlisted applications" });
+    }
+
+    const app = await storage.getApplication(Number(req.params.id));
+    if (!app) return res.status(404).json({ message: "Application not found" });
+    if (app.status !== "Waitlisted") {
+      return res.status(409).json({ message: "Application is not waitlisted" });
+    }
+
+    // The waitlist is first come, first served
+    const waitlist = await storage.getApplications({ programId: app.programId, status: "Waitlisted" });
+    const next = waitlist.sort((a, b) => new Date(a.submittedAt!).getTime() - new Date(b.submittedAt!).getTime())[0];
+    if (next.id !== app.id) {
+      return res.status(409).json({ message: `Applications are promoted in submission order. Promote #${next.id} first.` });
+    }
+
+    const program = await storage.getProgram(app.programId);
+    if (program && (await loadProgramCapacity(program)).exhausted) {
+      return res.status(409).json({ message: `${program.name} has no remaining funding capacity. Raise its caps first.` });
+    }
+
+    const updated = await storage.updateApplication(app.id, { status: "Submitted" });
+    await storage.createActivityEvent({
+      applicationId: app.id,
+      type: "StatusChange",
+      message: "Promoted from the waitlist for review",
+      createdByUserId: user.id
+    });
+    res.json(updated);
+  });
+
   // Exports
   app.get(api.exports.applications.path, async (req, res) => {
      if (!req.isAuthenticated()) return res.sendStatus(401);
      
      // Simple CSV generation
      const apps = await storage.getApplications();
+     const programFields = new Map(
+       (await storage.getPrograms()).map(p => [p.id, parseCustomFields(p.customFields)])
+     );
+     // One column per distinct custom field label, shared by programs that ask the same question
+     const customLabels = Array.from(new Set(Array.from(programFields.values()).flat().map(f => f.label)));
+     const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
      const csvRows = [
-       ['ID', 'Applicant', 'Email', 'Program ID', 'Status', 'System Result', 'Income', 'Household Size', 'Submitted At'].join(',')
+       ['ID', 'Applicant', 'Email', 'Program ID', 'Status', 'System Result', 'Income Tier', 'Income', 'Household Size', 'Submitted At',
+         ...customLabels.map(quote)].join(',')
      ];
      
      apps.forEach(a => {
+       const fields = programFields.get(a.programId) ?? [];
+       const values = parseCustomFieldValues(a.customFieldValues);
        csvRows.push([
          a.id,
-         `"${a.applicantName}"`,
+         quote(a.applicantName),
          a.applicantEmail,
          a.programId,
          a.status,
          a.systemResult || '',
+         a.incomeTier ? quote(a.incomeTier) : '',
          a.annualIncomeCents ? (a.annualIncomeCents / 100).toFixed(2) : '',
          a.householdSize || '',
-         a.submittedAt ? new Date(a.submittedAt).toISOString() : ''
+         a.submittedAt ? new Date(a.submittedAt).toISOString() : '',
+         ...customLabels.map(label => {
+           const field = fields.find(f => f.label === label);
+           return field ? quote(formatCustomFieldValue(field, values[field.key])) : '';
+         })
        ].join(','));
      });
      
@@ -430,21 +1080,28 @@ async function seedDatabase() {
   if (existingPrograms.length === 0) {
     const program = await storage.createProgram({
       name: "Example Rebate Program",
+      slug: await uniqueProgramSlug("Example Rebate Program"),
       regionLabel: "Statewide",
       effectiveStart: new Date(),
     });
     
     // Seed Limits
     // Household Size 1-6
+    const version = await storage.createIncomeLimitVersion({
+        programId: program.id,
+        label: "2024-V1",
+        effectiveStart: program.effectiveStart,
+    });
     const baseLimit = 3000000; // $30,000
     for (let i = 1; i <= 6; i++) {
         await storage.createIncomeLimit({
             programId: program.id,
+            versionId: version.id,
             householdSize: i,
             limitCents: baseLimit + (i * 500000), // + $5,000 per person
-            versionLabel: "2024-V1"
         });
     }
+    await storage.updateIncomeLimitVersion(version.id, { status: "Published", publishedAt: new Date() });
     console.log("Seeded Program & Limits");
   }
 }
@@ -0,0 +1,108 @@
+import zlib from "zlib";
+import { describe, expect, it } from "vitest";
+import { parseCsv, readSpreadsheet, writeCsv, writeXlsx, SpreadsheetError } from "./spreadsheets";
+
+// A deflated ZIP archive, for workbooks writeXlsx wouldn't produce
+function zipArchive(files: { name: string; data: Buffer }[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const file of files) {
+    const name = Buffer.from(file.name);
+    const compressed = zlib.deflateRawSync(file.data);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(file.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(file.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, name, compressed);
+    centrals.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centrals.reduce((sum, b) => sum + b.length, 0), 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, ...centrals, end]);
+}
+
+describe("parseCsv", () => {
+  it("handles quoted commas, doubled quotes and CRLF line endings", () => {
+    expect(parseCsv('\uFEFFSize,"Limit, USD"\r\n1,"$40,000"\r\n2,"say ""hi"""')).toEqual([
+      ["Size", "Limit, USD"],
+      ["1", "$40,000"],
+      ["2", 'say "hi"'],
+    ]);
+  });
+
+  it("reads back what writeCsv writes", () => {
+    const cells = [["Household Size", "Note"], ["1", 'a "quoted", multi\nline value']];
+    expect(parseCsv(writeCsv(cells))).toEqual(cells);
+  });
+});
+
+describe("readSpreadsheet", () => {
+  it("rejects other file types", () => {
+    expect(() => readSpreadsheet(Buffer.from(""), "limits.pdf")).toThrow(SpreadsheetError);
+  });
+
+  it("reads back what writeXlsx writes", () => {
+    const cells = [["Household Size", "Income Limit"], ["1", "40000.00"], ["2", "<Tom & Jerry>"]];
+    expect(readSpreadsheet(writeXlsx(cells), "limits.xlsx")).toEqual(cells);
+  });
+
+  // Checked against zlib's own crc32 where this Node version has one
+  it.skipIf(!("crc32" in zlib))("writes the checksums ZIP readers verify", () => {
+    const workbook = writeXlsx([["1", "2"]]);
+    const nameLength = workbook.readUInt16LE(26);
+    const compressedSize = workbook.readUInt32LE(18);
+    const data = zlib.inflateRawSync(workbook.subarray(30 + nameLength, 30 + nameLength + compressedSize));
+    expect(workbook.readUInt32LE(14)).toBe(zlib.crc32(data));
+  });
+
+  it("resolves shared strings and places cells by their column", () => {
+    const workbook = zipArchive([
+      { name: "xl/sharedStrings.xml", data: Buffer.from("<sst><si><t>Size</t></si><si><r><t>Lim</t></r><r><t>it</t></r></si></sst>") },
+      {
+        name: "xl/worksheets/sheet1.xml",
+        data: Buffer.from(
+          '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>'
+          + '<row r="3"><c r="A3"><v>2</v></c><c r="C3"><v>45000</v></c></row></sheetData></worksheet>'
+        ),
+      },
+    ]);
+    expect(readSpreadsheet(workbook, "limits.xlsx")).toEqual([["Size", "", "Limit"], [], ["2", "", "45000"]]);
+  });
+
+  it("refuses sheets that inflate past the size cap", () => {
+    const workbook = zipArchive([
+      { name: "xl/worksheets/sheet1.xml", data: Buffer.alloc(21 * 1024 * 1024, "0") },
+    ]);
+    expect(() => readSpreadsheet(workbook, "bomb.xlsx")).toThrow("The workbook is too large to import");
+  });
+
+  it("leaves entries other than the sheet and shared strings compressed", () => {
+    const workbook = zipArchive([
+      { name: "xl/media/padding.bin", data: Buffer.alloc(21 * 1024 * 1024, "0") },
+      { name: "xl/worksheets/sheet1.xml", data: Buffer.from('<row r="1"><c r="A1"><v>1</v></c></row>') },
+    ]);
+    expect(readSpreadsheet(workbook, "limits.xlsx")).toEqual([["1"]]);
+  });
+
+  it("reports archives without a worksheet", () => {
+    const workbook = zipArchive([{ name: "docProps/app.xml", data: Buffer.from("<Properties/>") }]);
+    expect(() => readSpreadsheet(workbook, "empty.xlsx")).toThrow("The workbook has no worksheets");
+    expect(() => readSpreadsheet(Buffer.from("not a zip at all, just some text padding"), "x.xlsx"))
+      .toThrow("The file is not a valid XLSX workbook");
+  });
+});
@@ -0,0 +1,282 @@
+import zlib from "zlib";
+
+// Reads and writes the simple single-sheet tables used for limit imports and
+// exports. XLSX files are ZIP archives of XML, handled here with zlib.
+
+export class SpreadsheetError extends Error {}
+
+export function readSpreadsheet(buffer: Buffer, filename: string): string[][] {
+  if (/\.xlsx$/i.test(filename)) return readXlsx(buffer);
+  if (/\.(csv|txt)$/i.test(filename)) return parseCsv(buffer.toString("utf8"));
+  throw new SpreadsheetError("Upload a .csv or .xlsx file");
+}
+
+// --- CSV ---
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, ""); // Excel adds a byte-order mark
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function writeCsv(cells: string[][]): string {
+  const quote = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return cells.map(row => row.map(quote).join(",")).join("\n");
+}
+
+// --- ZIP ---
+
+// Limit tables are small; a sheet inflating past this is a ZIP bomb, not a table
+const MAX_ENTRY_BYTES = 20 * 1024 * 1024;
+
+interface ZipEntry {
+  method: number;
+  data: Buffer;
+}
+
+// Lists the archive's entries without inflating them
+function unzip(buffer: Buffer): Map<string, ZipEntry> {
+  // The end-of-central-directory record sits in the last 64KB (it may carry a comment)
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new SpreadsheetError("The file is not a valid XLSX workbook");
+
+  const entries = new Map<string, ZipEntry>();
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  for (let n = 0; n < entryCount; n++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) throw new SpreadsheetError("The XLSX workbook is damaged");
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    entries.set(name, { method, data: buffer.subarray(dataStart, dataStart + compressedSize) });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function inflateEntry(entry: ZipEntry): Buffer {
+  if (entry.method === 0) return entry.data;
+  if (entry.method !== 8) throw new SpreadsheetError("The XLSX workbook uses an unsupported compression method");
+  try {
+    return zlib.inflateRawSync(entry.data, { maxOutputLength: MAX_ENTRY_BYTES });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+      throw new SpreadsheetError("The workbook is too large to import");
+    }
+    throw error;
+  }
+}
+
+// zlib.crc32 only arrived in Node 20.15, so checksums are computed here
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function zip(files: { name: string; data: Buffer }[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8");
+    const compressed = zlib.deflateRawSync(file.data);
+    const crc = crc32(file.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);  // Version needed
+    local.writeUInt16LE(8, 8);   // Deflate
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(file.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(file.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, compressed);
+    centrals.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralSize = centrals.reduce((sum, b) => sum + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, ...centrals, end]);
+}
+
+// --- XLSX ---
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+function encodeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// Joins every <t> run, so rich-text cells read as plain text
+function textRuns(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)).map(m => decodeXml(m[1])).join("");
+}
+
+function columnIndex(ref: string): number {
+  const letters = /^[A-Z]+/.exec(ref)?.[0] ?? "A";
+  return Array.from(letters).reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Values of the workbook's first sheet
+function readXlsx(buffer: Buffer): string[][] {
+  // Only the sheet and its shared strings are inflated
+  const entries = unzip(buffer);
+  const sheetName = entries.has("xl/worksheets/sheet1.xml")
+    ? "xl/worksheets/sheet1.xml"
+    : Array.from(entries.keys()).sort().find(name => /^xl\/worksheets\/[^/]+\.xml$/.test(name));
+  const sheetEntry = sheetName ? entries.get(sheetName) : undefined;
+  if (!sheetEntry) throw new SpreadsheetError("The workbook has no worksheets");
+  const sheet = inflateEntry(sheetEntry);
+
+  const sharedEntry = entries.get("xl/sharedStrings.xml");
+  const sharedXml = sharedEntry ? inflateEntry(sharedEntry).toString("utf8") : "";
+  const shared = Array.from(sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)).map(m => textRuns(m[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of Array.from(sheet.toString("utf8").matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g))) {
+    const rowNumber = Number(/\br="(\d+)"/.exec(rowMatch[1])?.[1] ?? rows.length + 1);
+    const row: string[] = [];
+    for (const cellMatch of Array.from(rowMatch[2].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const attrs = cellMatch[1];
+      const body = cellMatch[2] ?? "";
+      const ref = /\br="([A-Z]+)\d*"/.exec(attrs)?.[1];
+      const type = /\bt="(\w+)"/.exec(attrs)?.[1];
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+      const value = type === "s" ? shared[Number(raw)] ?? ""
+        : type === "inlineStr" ? textRuns(body)
+        : raw !== undefined ? decodeXml(raw) : "";
+      row[ref ? columnIndex(ref) : row.length] = value;
+    }
+    rows[rowNumber - 1] = Array.from(row, cell => cell ?? "");
+  }
+  return Array.from(rows, row => row ?? []);
+}
+
+export function writeXlsx(cells: string[][]): Buffer {
+  const sheetRows = cells.map((row, r) => {
+    const cellXml = row.map((value, c) => {
+      const ref = `${String.fromCharCode(65 + c)}${r + 1}`;
+      return /^-?\d+(\.\d+)?$/.test(value)
+        ? `<c r="${ref}"><v>${value}</v></c>`
+        : `<c r="${ref}" t="inlineStr"><is><t>${encodeXml(value)}</t></is></c>`;
+    }).join("");
+    return `<row r="${r + 1}">${cellXml}</row>`;
+  }).join("");
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  const files = [
+    {
+      name: "[Content_Types].xml",
+      xml: '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '</Types>',
+    },
+    {
+      name: "_rels/.rels",
+      xml: '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>',
+    },
+    {
+      name: "xl/workbook.xml",
+      xml: '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" '
+        + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + '<sheets><sheet name="Income Limits" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      xml: '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+        + '</Relationships>',
+    },
+    {
+      name: "xl/worksheets/sheet1.xml",
+      xml: `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows}</sheetData></worksheet>`,
+    },
+  ];
+  return zip(files.map(f => ({ name: f.name, data: Buffer.from(xmlHeader + f.xml, "utf8") })));
+}
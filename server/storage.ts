@@ -1,10 +1,14 @@
 import { db } from "./db";
 import { 
-  users, programs, incomeLimits, applications, documents, activityEvents,
-  type User, type Program, type IncomeLimit, type Application, type Document, type ActivityEvent,
-  type InsertUser, type InsertProgram, type InsertIncomeLimit, type InsertApplication, type InsertDocument, type InsertActivityEvent
+  users, programs, incomeLimitVersions, incomeLimits, amiTables, amiAreas, amiIncomes, applications, incomeLineItems, documents, activityEvents,
+  type User, type Program, type IncomeLimitVersion, type IncomeLimit, type AmiTable, type AmiArea, type AmiIncome, type Application, type IncomeLineItem, type Document, type ActivityEvent,
+  type InsertUser, type InsertProgram, type InsertIncomeLimitVersion, type InsertIncomeLimit, type InsertAmiTable, type InsertAmiArea, type InsertAmiIncome,
+  type InsertApplication, type InsertIncomeLineItem, type InsertDocument, type InsertActivityEvent
 } from "@shared/schema";
-import { eq, desc, and, like } from "drizzle-orm";
+import { totalAnnualIncomeCents } from "@shared/income";
+import type { LimitRow } from "@shared/limits";
+import type { ApplicationCount } from "@shared/capacity";
+import { eq, desc, and, like, lte, gte, or, isNull, count } from "drizzle-orm";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 
@@ -19,15 +23,39 @@ export interface IStorage {
   // Programs
   getPrograms(): Promise<Program[]>;
   getProgram(id: number): Promise<Program | undefined>;
+  getProgramBySlug(slug: string): Promise<Program | undefined>;
   createProgram(program: InsertProgram): Promise<Program>;
   updateProgram(id: number, updates: Partial<Program>): Promise<Program | undefined>;
+  duplicateProgram(sourceId: number, program: InsertProgram, upliftPercent: number): Promise<Program>;
+  deleteProgram(id: number): Promise<void>;
+  hasApplications(programId: number): Promise<boolean>;
+
+  // Limit Versions
+  getIncomeLimitVersions(programId: number): Promise<IncomeLimitVersion[]>;
+  getIncomeLimitVersion(id: number): Promise<IncomeLimitVersion | undefined>;
+  createIncomeLimitVersion(version: InsertIncomeLimitVersion, copyFromVersionId?: number): Promise<IncomeLimitVersion>;
+  importIncomeLimitVersion(version: InsertIncomeLimitVersion, rows: LimitRow[]): Promise<IncomeLimitVersion>;
+  updateIncomeLimitVersion(id: number, updates: Partial<IncomeLimitVersion>): Promise<IncomeLimitVersion | undefined>;
+  deleteIncomeLimitVersion(id: number): Promise<void>;
+  getIncomeLimitVersionInEffect(programId: number, at: Date): Promise<IncomeLimitVersion | undefined>;
 
   // Limits
-  getIncomeLimits(programId: number): Promise<IncomeLimit[]>;
+  getIncomeLimits(versionId: number): Promise<IncomeLimit[]>;
+  getIncomeLimit(id: number): Promise<IncomeLimit | undefined>;
   createIncomeLimit(limit: InsertIncomeLimit): Promise<IncomeLimit>;
   updateIncomeLimit(id: number, updates: Partial<IncomeLimit>): Promise<IncomeLimit | undefined>;
   deleteIncomeLimit(id: number): Promise<void>;
-  getIncomeLimitForHousehold(programId: number, size: number): Promise<IncomeLimit | undefined>;
+
+  // Area Median Income
+  getAmiTables(): Promise<AmiTable[]>;
+  getAmiTable(id: number): Promise<AmiTable | undefined>;
+  createAmiTable(table: InsertAmiTable): Promise<AmiTable>;
+  getAmiAreas(amiTableId: number): Promise<AmiArea[]>;
+  getAmiArea(id: number): Promise<AmiArea | undefined>;
+  createAmiArea(area: InsertAmiArea, incomes: Omit<InsertAmiIncome, "amiAreaId">[]): Promise<AmiArea>;
+  deleteAmiArea(id: number): Promise<void>;
+  getAmiIncomes(amiAreaId: number): Promise<AmiIncome[]>;
+  getAmiAreaForZip(amiTableId: number, zip: string): Promise<AmiArea | undefined>;
   
   // Applications
   createApplication(app: InsertApplication): Promise<Application>;
@@ -35,7 +63,12 @@ export interface IStorage {
   getApplication(id: number): Promise<Application | undefined>;
   getApplications(filters?: { status?: string, programId?: number, search?: string }): Promise<Application[]>;
   updateApplication(id: number, updates: Partial<Application>): Promise<Application>;
+  getStatusCounts(programId?: number): Promise<({ programId: number } & ApplicationCount)[]>;
   
+  // Income Line Items
+  getIncomeLineItems(applicationId: number): Promise<IncomeLineItem[]>;
+  replaceIncomeLineItems(applicationId: number, items: Omit<InsertIncomeLineItem, "applicationId">[]): Promise<IncomeLineItem[]>;
+
   // Documents
   createDocument(doc: InsertDocument): Promise<Document>;
   getDocuments(applicationId: number): Promise<Document[]>;
@@ -82,6 +115,11 @@ export class DatabaseStorage implements IStorage {
     return program;
   }
 
+  async getProgramBySlug(slug: string): Promise<Program | undefined> {
+    const [program] = await db.select().from(programs).where(eq(programs.slug, slug));
+    return program;
+  }
+
   async createProgram(program: InsertProgram): Promise<Program> {
     const [newProgram] = await db.insert(programs).values(program).returning();
     return newProgram;
@@ -95,9 +133,141 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Removes the program with its limit versions and limits
+  async deleteProgram(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(incomeLimits).where(eq(incomeLimits.programId, id));
+      await tx.delete(incomeLimitVersions).where(eq(incomeLimitVersions.programId, id));
+      await tx.delete(programs).where(eq(programs.id, id));
+    });
+  }
+
+  async hasApplications(programId: number): Promise<boolean> {
+    const [app] = await db.select({ id: applications.id })
+      .from(applications)
+      .where(eq(applications.programId, programId))
+      .limit(1);
+    return !!app;
+  }
+
+  // Copies the source's most recent limit version, scaled by upliftPercent, as a
+  // Draft spanning the new program's dates so it can be reviewed before publishing.
+  async duplicateProgram(sourceId: number, program: InsertProgram, upliftPercent: number): Promise<Program> {
+    return await db.transaction(async (tx) => {
+      const [newProgram] = await tx.insert(programs).values(program).returning();
+
+      const [latest] = await tx.select()
+        .from(incomeLimitVersions)
+        .where(eq(incomeLimitVersions.programId, sourceId))
+        .orderBy(desc(incomeLimitVersions.effectiveStart))
+        .limit(1);
+      if (!latest) return newProgram;
+
+      const [newVersion] = await tx.insert(incomeLimitVersions).values({
+        programId: newProgram.id,
+        label: `${newProgram.effectiveStart.getFullYear()}-V1`,
+        effectiveStart: newProgram.effectiveStart,
+        effectiveEnd: newProgram.effectiveEnd,
+      }).returning();
+
+      const rows = await tx.select().from(incomeLimits).where(eq(incomeLimits.versionId, latest.id));
+      if (rows.length > 0) {
+        await tx.insert(incomeLimits).values(rows.map(r => ({
+          programId: newProgram.id,
+          versionId: newVersion.id,
+          householdSize: r.householdSize,
+          limitCents: Math.round(r.limitCents * (100 + upliftPercent) / 100),
+        })));
+      }
+      return newProgram;
+    });
+  }
+
+  // Limit Versions
+  async getIncomeLimitVersions(programId: number): Promise<IncomeLimitVersion[]> {
+    return await db.select()
+      .from(incomeLimitVersions)
+      .where(eq(incomeLimitVersions.programId, programId))
+      .orderBy(desc(incomeLimitVersions.effectiveStart));
+  }
+
+  async getIncomeLimitVersion(id: number): Promise<IncomeLimitVersion | undefined> {
+    const [version] = await db.select().from(incomeLimitVersions).where(eq(incomeLimitVersions.id, id));
+    return version;
+  }
+
+  async createIncomeLimitVersion(version: InsertIncomeLimitVersion, copyFromVersionId?: number): Promise<IncomeLimitVersion> {
+    return await db.transaction(async (tx) => {
+      const [newVersion] = await tx.insert(incomeLimitVersions).values(version).returning();
+      if (copyFromVersionId) {
+        const rows = await tx.select().from(incomeLimits).where(eq(incomeLimits.versionId, copyFromVersionId));
+        if (rows.length > 0) {
+          await tx.insert(incomeLimits).values(rows.map(r => ({
+            programId: newVersion.programId,
+            versionId: newVersion.id,
+            householdSize: r.householdSize,
+            limitCents: r.limitCents,
+          })));
+        }
+      }
+      return newVersion;
+    });
+  }
+
+  async importIncomeLimitVersion(version: InsertIncomeLimitVersion, rows: LimitRow[]): Promise<IncomeLimitVersion> {
+    return await db.transaction(async (tx) => {
+      const [newVersion] = await tx.insert(incomeLimitVersions).values(version).returning();
+      await tx.insert(incomeLimits).values(rows.map(r => ({
+        programId: newVersion.programId,
+        versionId: newVersion.id,
+        householdSize: r.householdSize,
+        limitCents: r.limitCents,
+      })));
+      return newVersion;
+    });
+  }
+
+  async updateIncomeLimitVersion(id: number, updates: Partial<IncomeLimitVersion>): Promise<IncomeLimitVersion | undefined> {
+    const [updated] = await db.update(incomeLimitVersions)
+      .set(updates)
+      .where(eq(incomeLimitVersions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteIncomeLimitVersion(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(incomeLimits).where(eq(incomeLimits.versionId, id));
+      await tx.delete(incomeLimitVersions).where(eq(incomeLimitVersions.id, id));
+    });
+  }
+
+  async getIncomeLimitVersionInEffect(programId: number, at: Date): Promise<IncomeLimitVersion | undefined> {
+    // Overlapping published versions resolve to the one that started most recently.
+    // End dates are inclusive, so a version ending today still covers all of today.
+    const startOfDay = new Date(at);
+    startOfDay.setUTCHours(0, 0, 0, 0);
+    const [version] = await db.select()
+      .from(incomeLimitVersions)
+      .where(and(
+        eq(incomeLimitVersions.programId, programId),
+        eq(incomeLimitVersions.status, "Published"),
+        lte(incomeLimitVersions.effectiveStart, at),
+        or(isNull(incomeLimitVersions.effectiveEnd), gte(incomeLimitVersions.effectiveEnd, startOfDay))
+      ))
+      .orderBy(desc(incomeLimitVersions.effectiveStart))
+      .limit(1);
+    return version;
+  }
+
   // Limits
-  async getIncomeLimits(programId: number): Promise<IncomeLimit[]> {
-    return await db.select().from(incomeLimits).where(eq(incomeLimits.programId, programId));
+  async getIncomeLimits(versionId: number): Promise<IncomeLimit[]> {
+    return await db.select().from(incomeLimits).where(eq(incomeLimits.versionId, versionId));
+  }
+
+  async getIncomeLimit(id: number): Promise<IncomeLimit | undefined> {
+    const [limit] = await db.select().from(incomeLimits).where(eq(incomeLimits.id, id));
+    return limit;
   }
 
   async createIncomeLimit(limit: InsertIncomeLimit): Promise<IncomeLimit> {
@@ -117,13 +287,61 @@ export class DatabaseStorage implements IStorage {
     await db.delete(incomeLimits).where(eq(incomeLimits.id, id));
   }
 
-  async getIncomeLimitForHousehold(programId: number, size: number): Promise<IncomeLimit | undefined> {
-    // Find exact match or closest logic? Requirement says "lookup by householdSize".
-    // Assuming 1-to-1 mapping for MVP.
-    const [limit] = await db.select()
-      .from(incomeLimits)
-      .where(and(eq(incomeLimits.programId, programId), eq(incomeLimits.householdSize, size)));
-    return limit;
+  // Area Median Income
+  async getAmiTables(): Promise<AmiTable[]> {
+    return await db.select().from(amiTables).orderBy(desc(amiTables.createdAt));
+  }
+
+  async getAmiTable(id: number): Promise<AmiTable | undefined> {
+    const [table] = await db.select().from(amiTables).where(eq(amiTables.id, id));
+    return table;
+  }
+
+  async createAmiTable(table: InsertAmiTable): Promise<AmiTable> {
+    const [newTable] = await db.insert(amiTables).values(table).returning();
+    return newTable;
+  }
+
+  async getAmiAreas(amiTableId: number): Promise<AmiArea[]> {
+    return await db.select().from(amiAreas).where(eq(amiAreas.amiTableId, amiTableId));
+  }
+
+  async getAmiArea(id: number): Promise<AmiArea | undefined> {
+    const [area] = await db.select().from(amiAreas).where(eq(amiAreas.id, id));
+    return area;
+  }
+
+  async createAmiArea(area: InsertAmiArea, incomes: Omit<InsertAmiIncome, "amiAreaId">[]): Promise<AmiArea> {
+    return await db.transaction(async (tx) => {
+      const [newArea] = await tx.insert(amiAreas).values(area).returning();
+      if (incomes.length > 0) {
+        await tx.insert(amiIncomes).values(incomes.map(i => ({ ...i, amiAreaId: newArea.id })));
+      }
+      return newArea;
+    });
+  }
+
+  async deleteAmiArea(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(amiIncomes).where(eq(amiIncomes.amiAreaId, id));
+      await tx.delete(amiAreas).where(eq(amiAreas.id, id));
+    });
+  }
+
+  async getAmiIncomes(amiAreaId: number): Promise<AmiIncome[]> {
+    return await db.select().from(amiIncomes).where(eq(amiIncomes.amiAreaId, amiAreaId));
+  }
+
+  async getAmiAreaForZip(amiTableId: number, zip: string): Promise<AmiArea | undefined> {
+    // ZIP lists are stored as JSON text, so match in memory
+    const areas = await this.getAmiAreas(amiTableId);
+    return areas.find(area => {
+      try {
+        return JSON.parse(area.zipCodes || "[]").includes(zip);
+      } catch {
+        return false;
+      }
+    });
   }
 
   // Applications
@@ -160,6 +378,19 @@ export class DatabaseStorage implements IStorage {
     return await query;
   }
 
+  // Applications per program, status and system result, for funding capacity
+  async getStatusCounts(programId?: number): Promise<({ programId: number } & ApplicationCount)[]> {
+    return await db.select({
+      programId: applications.programId,
+      status: applications.status,
+      systemResult: applications.systemResult,
+      count: count(),
+    })
+      .from(applications)
+      .where(programId ? eq(applications.programId, programId) : undefined)
+      .groupBy(applications.programId, applications.status, applications.systemResult);
+  }
+
   async updateApplication(id: number, updates: Partial<Application>): Promise<Application> {
     const [updated] = await db.update(applications)
       .set({ ...updates, updatedAt: new Date() })
@@ -168,6 +399,28 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Income Line Items
+  async getIncomeLineItems(applicationId: number): Promise<IncomeLineItem[]> {
+    return await db.select()
+      .from(incomeLineItems)
+      .where(eq(incomeLineItems.applicationId, applicationId))
+      .orderBy(incomeLineItems.id);
+  }
+
+  async replaceIncomeLineItems(applicationId: number, items: Omit<InsertIncomeLineItem, "applicationId">[]): Promise<IncomeLineItem[]> {
+    // The application's annual income is derived from its line items, so both change together
+    return await db.transaction(async (tx) => {
+      await tx.delete(incomeLineItems).where(eq(incomeLineItems.applicationId, applicationId));
+      const created = items.length > 0
+        ? await tx.insert(incomeLineItems).values(items.map(i => ({ ...i, applicationId }))).returning()
+        : [];
+      await tx.update(applications)
+        .set({ annualIncomeCents: created.length > 0 ? totalAnnualIncomeCents(created) : null, updatedAt: new Date() })
+        .where(eq(applications.id, applicationId));
+      return created;
+    });
+  }
+
   // Documents
   async createDocument(doc: InsertDocument): Promise<Document> {
     const [newDoc] = await db.insert(documents).values(doc).returning();
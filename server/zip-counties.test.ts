@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { matchServiceArea, parseZipList } from "@shared/service-areas";
+import { listCounties, resolveZipLocation } from "./zip-counties";
+
+describe("resolveZipLocation", () => {
+  it("places ZIPs in their state and county", () => {
+    expect(resolveZipLocation("11201")).toEqual({ state: "NY", county: "Kings" });
+    expect(resolveZipLocation("94103")).toEqual({ state: "CA", county: "San Francisco" });
+    expect(resolveZipLocation("60601")).toEqual({ state: "IL", county: "Cook" });
+  });
+
+  it("knows nothing about ZIPs missing from the data", () => {
+    expect(resolveZipLocation("00000")).toBeNull();
+    expect(resolveZipLocation(null)).toBeNull();
+  });
+});
+
+describe("listCounties", () => {
+  it("covers the whole country", () => {
+    const counties = listCounties();
+    expect(new Set(counties.map((c) => c.state)).size).toBeGreaterThanOrEqual(51);
+    expect(counties).toContainEqual(expect.objectContaining({ state: "NY", county: "Kings" }));
+  });
+});
+
+describe("matchServiceArea", () => {
+  const kings = { type: "County" as const, state: "NY", county: "kings" };
+
+  it("allows listed ZIPs and ZIPs in served states or counties", () => {
+    expect(matchServiceArea("11201", null, [], [])).toBe("Unrestricted");
+    expect(matchServiceArea("07030", null, ["07030"], [kings])).toBe("Allowed");
+    expect(matchServiceArea("11201", { state: "NY", county: "Kings" }, [], [kings])).toBe("Allowed");
+    expect(matchServiceArea("10001", { state: "NY", county: "New York" }, [], [{ type: "State", state: "NY" }])).toBe("Allowed");
+    expect(matchServiceArea("10001", { state: "NY", county: "New York" }, [], [kings])).toBe("NotAllowed");
+  });
+
+  it("can't decide county areas for ZIPs without a county", () => {
+    expect(matchServiceArea("00000", null, [], [kings])).toBe("Unknown");
+    expect(matchServiceArea("11299", { state: "NY", county: null }, [], [kings])).toBe("Unknown");
+  });
+});
+
+describe("parseZipList", () => {
+  it("sorts pasted ZIPs into added, duplicate and invalid", () => {
+    expect(parseZipList('ZIP,City\n"11201",Brooklyn\n11215-1234; 11201 1120', ["11215"])).toEqual({
+      added: ["11201"],
+      duplicates: ["11215", "11201"],
+      invalid: ["1120"],
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import type { ServiceAreaCounty } from "@shared/schema";
+import type { ZipLocation } from "@shared/service-areas";
+import zipCountyData from "./data/zip-counties.json";
+
+// Offline ZIP-to-county data from the GeoNames US postal codes (CC BY 4.0),
+// grouped by state and county. Each ZIP is assigned to a single county.
+// Regenerate with script/build-zip-counties.ts. An empty county name holds
+// ZIPs whose state is known but whose county isn't.
+const zipCounties: Record<string, Record<string, string>> = zipCountyData;
+
+const zipIndex = new Map<string, ZipLocation>();
+for (const [state, counties] of Object.entries(zipCounties)) {
+  for (const [county, zips] of Object.entries(counties)) {
+    for (const zip of zips.split(" ")) zipIndex.set(zip, { state, county: county || null });
+  }
+}
+
+export function lookupZip(zip: string | null | undefined): ZipLocation | undefined {
+  return zip ? zipIndex.get(zip) : undefined;
+}
+
+// Where a ZIP sits according to the dataset. The applicant's own state isn't
+// used, so a ZIP the dataset doesn't know resolves to nothing.
+export function resolveZipLocation(zip: string | null | undefined): ZipLocation | null {
+  return lookupZip(zip) ?? null;
+}
+
+export function listCounties(): ServiceAreaCounty[] {
+  return Object.entries(zipCounties)
+    .flatMap(([state, counties]) =>
+      Object.entries(counties)
+        .filter(([county]) => county)
+        .map(([county, zips]) => ({ state, county, zipCount: zips.split(" ").length }))
+    )
+    .sort((a, b) => a.state.localeCompare(b.state) || a.county.localeCompare(b.county));
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { getProgramWindowStatus, getSubmissionDeadline } from "./availability";
+
+const program = { effectiveStart: new Date("2025-01-01"), effectiveEnd: new Date("2025-03-10"), submissionGraceDays: 0 };
+
+describe("getProgramWindowStatus", () => {
+  it("stays open through the whole last day", () => {
+    expect(getProgramWindowStatus(program, new Date("2025-03-10T23:59:00Z"))).toBe("Open");
+    expect(getProgramWindowStatus(program, new Date("2025-03-11T00:00:00Z"))).toBe("Closed");
+  });
+
+  it("gives drafts started by the last day the grace period", () => {
+    const graced = { ...program, submissionGraceDays: 2 };
+    const startedAt = new Date("2025-03-10T18:00:00Z");
+    expect(getProgramWindowStatus(graced, new Date("2025-03-12T23:59:00Z"), startedAt)).toBe("Grace");
+    expect(getProgramWindowStatus(graced, new Date("2025-03-13T00:00:00Z"), startedAt)).toBe("Closed");
+    expect(getProgramWindowStatus(graced, new Date("2025-03-12T12:00:00Z"), new Date("2025-03-11T09:00:00Z"))).toBe("Closed");
+  });
+});
+
+describe("getSubmissionDeadline", () => {
+  it("ends with the last grace day", () => {
+    expect(getSubmissionDeadline({ ...program, submissionGraceDays: 2 })?.toISOString()).toBe("2025-03-12T23:59:59.999Z");
+    expect(getSubmissionDeadline({ ...program, effectiveEnd: null })).toBeNull();
+  });
+});
@@ -0,0 +1,37 @@
+import type { Program } from "./schema";
+
+type ProgramWindow = Pick<Program, "effectiveStart" | "effectiveEnd" | "submissionGraceDays">;
+
+export type ProgramWindowStatus = "NotStarted" | "Open" | "Grace" | "Closed";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isProgramOpen(program: ProgramWindow, at: Date = new Date()): boolean {
+  return getProgramWindowStatus(program, at) === "Open";
+}
+
+// End dates are inclusive: a program ending on the 10th takes applications
+// through the last moment of the 10th.
+export function getProgramCloseTime(program: Pick<ProgramWindow, "effectiveEnd">): Date | null {
+  if (!program.effectiveEnd) return null;
+  return new Date(new Date(program.effectiveEnd).getTime() + DAY_MS - 1);
+}
+
+// Last moment a draft started before the program closed may still be submitted
+export function getSubmissionDeadline(program: ProgramWindow): Date | null {
+  const closesAt = getProgramCloseTime(program);
+  if (!closesAt) return null;
+  return new Date(closesAt.getTime() + program.submissionGraceDays * DAY_MS);
+}
+
+// Where `at` falls in the program's window. Grace only applies to applications
+// started (startedAt) before the program closed.
+export function getProgramWindowStatus(program: ProgramWindow, at: Date, startedAt: Date | null = null): ProgramWindowStatus {
+  if (at < new Date(program.effectiveStart)) return "NotStarted";
+  const closesAt = getProgramCloseTime(program);
+  if (!closesAt || at <= closesAt) return "Open";
+
+  const startedBeforeClose = startedAt !== null && startedAt <= closesAt;
+  const deadline = getSubmissionDeadline(program)!;
+  return startedBeforeClose && at <= deadline ? "Grace" : "Closed";
+}
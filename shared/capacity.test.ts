@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { getProgramCapacity, hasFundingCap, holdsFundingSlot, type ApplicationCount } from "./capacity";
+
+const uncapped = { id: 1, maxApprovals: null, budgetCents: null, awardCents: null };
+
+describe("hasFundingCap", () => {
+  it("is set by either cap", () => {
+    expect(hasFundingCap(uncapped)).toBe(false);
+    expect(hasFundingCap({ ...uncapped, maxApprovals: 10 })).toBe(true);
+    expect(hasFundingCap({ ...uncapped, budgetCents: 100_000 })).toBe(true);
+  });
+});
+
+describe("holdsFundingSlot", () => {
+  it("covers eligible applications awaiting a decision", () => {
+    expect(holdsFundingSlot({ status: "Submitted", systemResult: "Eligible" })).toBe(true);
+    expect(holdsFundingSlot({ status: "NeedsInfo", systemResult: "Eligible" })).toBe(true);
+    expect(holdsFundingSlot({ status: "Submitted", systemResult: "NeedsReview" })).toBe(false);
+    expect(holdsFundingSlot({ status: "Waitlisted", systemResult: "Eligible" })).toBe(false);
+    expect(holdsFundingSlot({ status: "Approved", systemResult: "Eligible" })).toBe(false);
+  });
+});
+
+describe("getProgramCapacity", () => {
+  const counts: ApplicationCount[] = [
+    { status: "Approved", systemResult: "Eligible", count: 3 },
+    { status: "Approved", systemResult: "NeedsReview", count: 1 },
+    { status: "Submitted", systemResult: "Eligible", count: 2 },
+    { status: "NeedsInfo", systemResult: "Eligible", count: 1 },
+    { status: "Submitted", systemResult: "NotEligible", count: 5 },
+    { status: "Waitlisted", systemResult: "Eligible", count: 4 },
+  ];
+
+  it("is never exhausted without caps", () => {
+    expect(getProgramCapacity(uncapped, counts)).toMatchObject({
+      approvedCount: 4,
+      pendingCount: 3,
+      waitlistedCount: 4,
+      remainingApprovals: null,
+      remainingBudgetCents: null,
+      exhausted: false,
+    });
+  });
+
+  it("reserves approval slots for pending eligible applications", () => {
+    expect(getProgramCapacity({ ...uncapped, maxApprovals: 8 }, counts)).toMatchObject({ remainingApprovals: 1, exhausted: false });
+    expect(getProgramCapacity({ ...uncapped, maxApprovals: 7 }, counts)).toMatchObject({ remainingApprovals: 0, exhausted: true });
+  });
+
+  it("commits an award per approved or pending application", () => {
+    const capacity = getProgramCapacity({ ...uncapped, budgetCents: 900_000, awardCents: 100_000 }, counts);
+    expect(capacity).toMatchObject({ committedCents: 700_000, remainingBudgetCents: 200_000, exhausted: false });
+  });
+
+  it("counts the budget as spent once it can't cover another award", () => {
+    const capacity = getProgramCapacity({ ...uncapped, budgetCents: 750_000, awardCents: 100_000 }, counts);
+    expect(capacity).toMatchObject({ remainingBudgetCents: 50_000, exhausted: true });
+  });
+
+  it("can't enforce a budget without an award amount", () => {
+    expect(getProgramCapacity({ ...uncapped, budgetCents: 0 }, counts).exhausted).toBe(false);
+  });
+
+  it("never reports negative room after caps are lowered", () => {
+    const capacity = getProgramCapacity({ ...uncapped, maxApprovals: 2, budgetCents: 100_000, awardCents: 100_000 }, counts);
+    expect(capacity).toMatchObject({ remainingApprovals: 0, remainingBudgetCents: 0, exhausted: true });
+  });
+});
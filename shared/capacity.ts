@@ -0,0 +1,49 @@
+import type { Application, Program, ProgramCapacity, ApplicationStatus, SystemResult } from "./schema";
+
+type FundingSettings = Pick<Program, "id" | "maxApprovals" | "budgetCents" | "awardCents">;
+
+export interface ApplicationCount {
+  status: ApplicationStatus;
+  systemResult: SystemResult | null;
+  count: number;
+}
+
+export function hasFundingCap(program: Pick<Program, "maxApprovals" | "budgetCents">): boolean {
+  return program.maxApprovals !== null || program.budgetCents !== null;
+}
+
+// Eligible applications awaiting a decision hold a slot, so later submissions
+// are waitlisted rather than competing with them for the same funding
+export function holdsFundingSlot(application: Pick<Application, "status" | "systemResult">): boolean {
+  return (application.status === "Submitted" || application.status === "NeedsInfo")
+    && application.systemResult === "Eligible";
+}
+
+// Every approval and pending eligible application commits one award. The budget
+// counts as spent once what's left can't cover another award; without an award
+// amount it can't be enforced.
+export function getProgramCapacity(program: FundingSettings, counts: ApplicationCount[]): ProgramCapacity {
+  const total = (matches: (c: ApplicationCount) => boolean) =>
+    counts.filter(matches).reduce((sum, c) => sum + c.count, 0);
+  const approvedCount = total((c) => c.status === "Approved");
+  const pendingCount = total(holdsFundingSlot);
+  const committedCents = (approvedCount + pendingCount) * (program.awardCents ?? 0);
+  const remainingApprovals = program.maxApprovals === null
+    ? null
+    : Math.max(program.maxApprovals - approvedCount - pendingCount, 0);
+  const remainingBudgetCents = program.budgetCents === null ? null : Math.max(program.budgetCents - committedCents, 0);
+  const budgetExhausted = remainingBudgetCents !== null && !!program.awardCents && remainingBudgetCents < program.awardCents;
+
+  return {
+    programId: program.id,
+    approvedCount,
+    pendingCount,
+    waitlistedCount: total((c) => c.status === "Waitlisted"),
+    maxApprovals: program.maxApprovals,
+    remainingApprovals,
+    budgetCents: program.budgetCents,
+    committedCents,
+    remainingBudgetCents,
+    exhausted: remainingApprovals === 0 || budgetExhausted,
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { getSubmissionIssues } from "./completeness";
+
+const program = { criteria: "[]", customFields: "[]" };
+
+const complete = {
+  addressLine1: "1 Main St",
+  city: "Brooklyn",
+  state: "NY",
+  zip: "11201",
+  residenceType: "Own" as const,
+  propertyType: "Single-family" as const,
+  applicantDateOfBirth: null,
+  householdSize: 2,
+  annualIncomeCents: 3_000_000,
+  customFieldValues: "{}",
+};
+
+describe("getSubmissionIssues", () => {
+  it("passes a complete application", () => {
+    expect(getSubmissionIssues(program, complete, "Allowed")).toEqual([]);
+  });
+
+  it("tags each missing answer with the step that asks for it", () => {
+    const issues = getSubmissionIssues(program, {
+      ...complete, addressLine1: " ", residenceType: null, householdSize: null, annualIncomeCents: null,
+    }, null);
+    expect(issues.map((issue) => [issue.field, issue.step])).toEqual([
+      ["addressLine1", "contact"],
+      ["residenceType", "contact"],
+      ["householdSize", "household"],
+      ["annualIncomeCents", "income"],
+    ]);
+  });
+
+  it("checks the state and ZIP formats", () => {
+    const issues = getSubmissionIssues(program, { ...complete, state: "New York", zip: "1120" }, null);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "State must be a 2-letter abbreviation",
+      "ZIP code must be 5 digits",
+    ]);
+  });
+
+  it("blocks ZIPs outside the service area but not ZIPs it can't place", () => {
+    expect(getSubmissionIssues(program, complete, "NotAllowed")).toEqual([
+      { field: "zip", step: "contact", message: "ZIP code 11201 is not eligible for this program" },
+    ]);
+    expect(getSubmissionIssues(program, complete, "Unknown")).toEqual([]);
+  });
+
+  it("asks for a date of birth only when a criterion needs it", () => {
+    const ageProgram = { ...program, criteria: JSON.stringify([{ type: "MinimumAge", age: 62 }]) };
+    expect(getSubmissionIssues(ageProgram, complete, null).map((issue) => issue.field)).toEqual(["applicantDateOfBirth"]);
+  });
+
+  it("requires the program's required questions", () => {
+    const customFields = JSON.stringify([{ key: "roof_age", label: "Roof age", type: "Number", required: true, options: [] }]);
+    expect(getSubmissionIssues({ ...program, customFields }, complete, null)).toEqual([
+      { field: "customFieldValues.roof_age", step: "questions", message: "Roof age is required" },
+    ]);
+    expect(getSubmissionIssues({ ...program, customFields }, { ...complete, customFieldValues: '{"roof_age":12}' }, null))
+      .toEqual([]);
+  });
+
+  it("ignores answers to removed questions and options", () => {
+    const customFields = JSON.stringify([{ key: "roof", label: "Roof", type: "Select", required: true, options: ["Metal"] }]);
+    expect(getSubmissionIssues({ ...program, customFields }, { ...complete, customFieldValues: '{"roof":"Metal","old":1}' }, null))
+      .toEqual([]);
+    expect(getSubmissionIssues({ ...program, customFields }, { ...complete, customFieldValues: '{"roof":"Tile"}' }, null))
+      .toEqual([{ field: "customFieldValues.roof", step: "questions", message: "Roof is required" }]);
+    expect(getSubmissionIssues(program, { ...complete, customFieldValues: '{"old":1}' }, null)).toEqual([]);
+  });
+});
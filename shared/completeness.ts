@@ -0,0 +1,64 @@
+import type { Application, Program, SubmissionIssue } from "./schema";
+import { parseCriteria, hasAgeCriterion } from "./criteria";
+import {
+  currentCustomFieldValues, parseCustomFields, parseCustomFieldValues, validateCustomFieldValues,
+} from "./custom-fields";
+import type { ServiceAreaMatch } from "./service-areas";
+
+type SubmittedApplication = Pick<
+  Application,
+  | "addressLine1" | "city" | "state" | "zip" | "residenceType" | "propertyType"
+  | "applicantDateOfBirth" | "householdSize" | "annualIncomeCents" | "customFieldValues"
+>;
+
+// Everything that must be answered before an application can be submitted, tagged
+// with the wizard step that asks for it. An eligible ZIP is part of this; a ZIP whose
+// county can't be resolved isn't, since the engine sends that to review instead.
+export function getSubmissionIssues(
+  program: Pick<Program, "criteria" | "customFields">,
+  application: SubmittedApplication,
+  zipMatch: ServiceAreaMatch | null
+): SubmissionIssue[] {
+  const issues: SubmissionIssue[] = [];
+  const missing = (field: string, step: SubmissionIssue["step"], label: string) =>
+    issues.push({ field, step, message: `${label} is required` });
+
+  if (!application.addressLine1?.trim()) missing("addressLine1", "contact", "Address");
+  if (!application.city?.trim()) missing("city", "contact", "City");
+  if (!application.state?.trim()) {
+    missing("state", "contact", "State");
+  } else if (!/^[A-Za-z]{2}$/.test(application.state.trim())) {
+    issues.push({ field: "state", step: "contact", message: "State must be a 2-letter abbreviation" });
+  }
+  if (!application.zip) {
+    missing("zip", "contact", "ZIP code");
+  } else if (!/^\d{5}$/.test(application.zip)) {
+    issues.push({ field: "zip", step: "contact", message: "ZIP code must be 5 digits" });
+  } else if (zipMatch === "NotAllowed") {
+    issues.push({ field: "zip", step: "contact", message: `ZIP code ${application.zip} is not eligible for this program` });
+  }
+  if (!application.residenceType) missing("residenceType", "contact", "Residence type");
+  if (!application.propertyType) missing("propertyType", "contact", "Property type");
+  if (hasAgeCriterion(parseCriteria(program.criteria)) && !application.applicantDateOfBirth) {
+    missing("applicantDateOfBirth", "contact", "Date of birth");
+  }
+
+  if (!application.householdSize) missing("householdSize", "household", "Household size");
+
+  const customFields = parseCustomFields(program.customFields);
+  const fieldError = validateCustomFieldValues(
+    customFields,
+    currentCustomFieldValues(customFields, parseCustomFieldValues(application.customFieldValues)),
+    { requireAll: true }
+  );
+  if (fieldError) {
+    issues.push({ field: `customFieldValues.${fieldError.key}`, step: "questions", message: fieldError.message });
+  }
+
+  // Set from the income line items; null until at least one is saved
+  if (application.annualIncomeCents === null) {
+    issues.push({ field: "annualIncomeCents", step: "income", message: "Add at least one income source, or $0 if none" });
+  }
+
+  return issues;
+}
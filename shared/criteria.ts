@@ -0,0 +1,72 @@
+import { differenceInYears } from "date-fns";
+import { eligibilityCriteriaSchema, type EligibilityCriterion, type CriterionType } from "./schema";
+import { incomeSourceLabels, type IncomeSourceType } from "./income";
+
+export const criterionTypeLabels: Record<CriterionType, string> = {
+  StateEquals: "State equals",
+  HouseholdSizeRange: "Household size range",
+  IncomeSourceExcluded: "Income source excluded",
+  MinimumAge: "Applicant age at least",
+};
+
+export function parseCriteria(value: string | null | undefined): EligibilityCriterion[] {
+  try {
+    const parsed = eligibilityCriteriaSchema.safeParse(JSON.parse(value || "[]"));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+// One line per condition, worded for applicants and reviewers alike
+export function describeCriterion(criterion: EligibilityCriterion): string {
+  switch (criterion.type) {
+    case "StateEquals":
+      return `Lives in ${criterion.state}`;
+    case "HouseholdSizeRange":
+      if (criterion.min !== null && criterion.max !== null) return `Household of ${criterion.min} to ${criterion.max} people`;
+      return criterion.min !== null
+        ? `Household of at least ${criterion.min} people`
+        : `Household of at most ${criterion.max} people`;
+    case "IncomeSourceExcluded":
+      return `No income from ${incomeSourceLabels[criterion.sourceType]}`;
+    case "MinimumAge":
+      return `Applicant is ${criterion.age} or older`;
+  }
+}
+
+export interface CriteriaFacts {
+  state: string | null;
+  householdSize: number | null;
+  applicantDateOfBirth: string | null;
+  incomeSources: IncomeSourceType[] | null; // Null until income has been itemized
+}
+
+export type CriterionOutcome = "Met" | "NotMet" | "Missing";
+
+export function applicantAge(dateOfBirth: string, asOf: Date): number {
+  return differenceInYears(asOf, new Date(`${dateOfBirth}T00:00:00`)); // Local midnight, not UTC
+}
+
+export function evaluateCriterion(criterion: EligibilityCriterion, facts: CriteriaFacts, asOf: Date): CriterionOutcome {
+  switch (criterion.type) {
+    case "StateEquals":
+      if (!facts.state) return "Missing";
+      return facts.state.trim().toUpperCase() === criterion.state ? "Met" : "NotMet";
+    case "HouseholdSizeRange":
+      if (!facts.householdSize) return "Missing";
+      return (criterion.min === null || facts.householdSize >= criterion.min)
+        && (criterion.max === null || facts.householdSize <= criterion.max)
+        ? "Met" : "NotMet";
+    case "IncomeSourceExcluded":
+      if (!facts.incomeSources) return "Missing";
+      return facts.incomeSources.includes(criterion.sourceType) ? "NotMet" : "Met";
+    case "MinimumAge":
+      if (!facts.applicantDateOfBirth) return "Missing";
+      return applicantAge(facts.applicantDateOfBirth, asOf) >= criterion.age ? "Met" : "NotMet";
+  }
+}
+
+export function hasAgeCriterion(criteria: EligibilityCriterion[]): boolean {
+  return criteria.some(c => c.type === "MinimumAge");
+}
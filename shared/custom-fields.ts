@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { customFieldsSchema, customFieldValueSchema, type CustomField, type CustomFieldValue } from "./schema";
+
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export function parseCustomFields(value: string | null | undefined): CustomField[] {
+  try {
+    const parsed = customFieldsSchema.safeParse(JSON.parse(value || "[]"));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+export function parseCustomFieldValues(value: string | null | undefined): CustomFieldValues {
+  try {
+    const parsed = z.record(customFieldValueSchema).safeParse(JSON.parse(value || "{}"));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+// Stable storage key derived from a label, e.g. "Year built" -> "year_built"
+export function customFieldKey(label: string, existing: string[]): string {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "field";
+  let key = base;
+  for (let i = 2; existing.includes(key); i++) key = `${base}_${i}`;
+  return key;
+}
+
+function isBlank(value: CustomFieldValue | undefined) {
+  return value === undefined || value === null || value === "" || value === false;
+}
+
+// Drops answers to questions the program no longer asks, and Select answers
+// whose option was removed, so an edited program doesn't strand its drafts.
+export function currentCustomFieldValues(fields: CustomField[], values: CustomFieldValues): CustomFieldValues {
+  const current: CustomFieldValues = {};
+  for (const field of fields) {
+    const value = values[field.key];
+    if (value === undefined) continue;
+    if (field.type === "Select" && typeof value === "string" && value !== "" && !field.options.includes(value)) continue;
+    current[field.key] = value;
+  }
+  return current;
+}
+
+// The first problem with the answers, if any. Answers to fields not in the
+// list are ignored. Drafts may leave required fields blank; pass requireAll
+// when the application must be complete.
+export function validateCustomFieldValues(
+  fields: CustomField[],
+  values: CustomFieldValues,
+  { requireAll = false }: { requireAll?: boolean } = {}
+): { key: string; message: string } | null {
+  for (const field of fields) {
+    const value = values[field.key];
+    if (isBlank(value)) {
+      if (requireAll && field.required) return { key: field.key, message: `${field.label} is required` };
+      continue;
+    }
+    const valid = field.type === "Number" ? typeof value === "number" && isFinite(value)
+      : field.type === "Checkbox" ? typeof value === "boolean"
+      : field.type === "Date" ? typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      : field.type === "Select" ? typeof value === "string" && field.options.includes(value)
+      : typeof value === "string";
+    if (!valid) return { key: field.key, message: `${field.label} has an invalid value` };
+  }
+  return null;
+}
+
+export function formatCustomFieldValue(field: CustomField, value: CustomFieldValue | undefined): string {
+  if (value === undefined || value === null || value === "") return "";
+  if (field.type === "Checkbox") return value ? "Yes" : "No";
+  return String(value);
+}
@@ -0,0 +1,53 @@
+// Plain-language wording for eligibility rules and reason codes, shared by the
+// reviewer breakdown, the status page and the pre-screener.
+
+export const ruleLabels: Record<string, string> = {
+  effectiveDates: "Program dates",
+  zipCode: "Service area",
+  residenceType: "Residence type",
+  propertyType: "Property type",
+  criteria: "Program criteria",
+  categorical: "Assistance program enrollment",
+  incomeLimit: "Household income",
+  requiredDocuments: "Required documents",
+};
+
+export const reasonMessages: Record<string, string> = {
+  PROGRAM_ACTIVE: "The program was accepting applications.",
+  PROGRAM_GRACE_PERIOD: "Your application was started before the program closed and submitted within the grace period.",
+  PROGRAM_NOT_STARTED: "This program is not accepting applications yet.",
+  PROGRAM_ENDED: "This program is no longer accepting applications.",
+  ZIP_UNRESTRICTED: "This program is open to all ZIP codes.",
+  ZIP_ALLOWED: "Your ZIP code is in this program's service area.",
+  ZIP_MISSING: "Your ZIP code hasn't been provided.",
+  ZIP_NOT_ALLOWED: "Your ZIP code is outside this program's service area.",
+  ZIP_AREA_UNKNOWN: "We couldn't confirm which county your ZIP code is in, so a reviewer will check it.",
+  RESIDENCE_TYPE_UNRESTRICTED: "This program serves owners and renters.",
+  RESIDENCE_TYPE_ALLOWED: "This program serves your residence type.",
+  RESIDENCE_TYPE_MISSING: "Whether you own or rent hasn't been provided.",
+  RESIDENCE_TYPE_NOT_ALLOWED: "This program does not serve your residence type.",
+  PROPERTY_TYPE_UNRESTRICTED: "This program serves all property types.",
+  PROPERTY_TYPE_ALLOWED: "This program serves your property type.",
+  PROPERTY_TYPE_MISSING: "Your property type hasn't been provided.",
+  PROPERTY_TYPE_NOT_ALLOWED: "This program does not serve your property type.",
+  NO_CRITERIA: "This program has no additional criteria.",
+  CRITERIA_MET: "You meet all of this program's criteria.",
+  CRITERIA_NOT_MET: "You don't meet one or more of this program's criteria.",
+  CRITERIA_DATA_MISSING: "We need more details to check some of this program's criteria.",
+  CATEGORICAL_NOT_CLAIMED: "You did not claim enrollment in an assistance program.",
+  CATEGORICAL_PROOF_PROVIDED: "You provided proof of enrollment in a qualifying assistance program.",
+  CATEGORICAL_PROOF_MISSING: "Proof of your assistance program enrollment is still needed.",
+  INCOME_WAIVED_CATEGORICAL: "Your assistance program enrollment qualifies you regardless of income.",
+  INCOME_WITHIN_LIMIT: "Your income is within the limit for your household size.",
+  INCOME_WITHIN_TIER: "Your income is within the limit for your household size.",
+  INCOME_OVER_LIMIT: "Your income is above the limit for your household size.",
+  INCOME_DATA_MISSING: "Your household size or income hasn't been provided.",
+  LIMIT_NOT_FOUND: "We couldn't find an income limit for your household; a reviewer will check.",
+  NO_DOCUMENTS_REQUIRED: "No documents are required.",
+  DOCUMENTS_PROVIDED: "All required documents were provided.",
+  DOCUMENTS_MISSING: "Some required documents are still missing.",
+};
+
+export function explainReason(reasonCode: string): string {
+  return reasonMessages[reasonCode] || reasonCode;
+}
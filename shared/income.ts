@@ -0,0 +1,31 @@
+import { payFrequencies, incomeSourceTypes, type IncomeLineItem } from "./schema";
+
+export type PayFrequency = typeof payFrequencies[number];
+export type IncomeSourceType = typeof incomeSourceTypes[number];
+
+export const incomeSourceLabels: Record<IncomeSourceType, string> = {
+  Wages: "Wages / Salary",
+  SelfEmployment: "Self-Employment",
+  SocialSecurity: "Social Security",
+  SSI: "SSI",
+  Pension: "Pension / Retirement",
+  Unemployment: "Unemployment",
+  ChildSupport: "Child Support",
+  Other: "Other",
+};
+
+const periodsPerYear: Record<PayFrequency, number> = {
+  Weekly: 52,
+  Biweekly: 26,
+  Monthly: 12,
+  Annual: 1,
+};
+
+export function annualizeCents(amountCents: number, frequency: PayFrequency): number {
+  return amountCents * periodsPerYear[frequency];
+}
+
+// Household annual income: every line item annualized and summed
+export function totalAnnualIncomeCents(items: Pick<IncomeLineItem, "amountCents" | "frequency">[]): number {
+  return items.reduce((sum, item) => sum + annualizeCents(item.amountCents, item.frequency), 0);
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareLimitTables, guessLimitColumns, limitTableCells, parseDollarsToCents, readLimitTable, validateLimitRows,
+} from "./limit-tables";
+
+describe("parseDollarsToCents", () => {
+  it("accepts currency formatting", () => {
+    expect(parseDollarsToCents("$52,300.00")).toBe(5_230_000);
+    expect(parseDollarsToCents(" 41000 ")).toBe(4_100_000);
+  });
+
+  it("rejects text and negative amounts", () => {
+    expect(parseDollarsToCents("Income Limit")).toBeNull();
+    expect(parseDollarsToCents("-100")).toBeNull();
+    expect(parseDollarsToCents("")).toBeNull();
+  });
+});
+
+describe("guessLimitColumns", () => {
+  it("finds the columns from header text", () => {
+    expect(guessLimitColumns(["Area", "Limit", "Household Size"])).toEqual({ sizeColumn: 2, limitColumn: 1, hasHeader: true });
+  });
+
+  it("falls back to the first two columns when there is no header", () => {
+    expect(guessLimitColumns(["1", "$40,000"])).toEqual({ sizeColumn: 0, limitColumn: 1, hasHeader: false });
+  });
+});
+
+describe("readLimitTable", () => {
+  const mapping = { sizeColumn: 0, limitColumn: 1, hasHeader: true };
+
+  it("reads rows and skips blank lines", () => {
+    const read = readLimitTable([["Size", "Limit"], ["1", "$40,000"], ["", ""], ["2", "45,500.50"]], mapping);
+    expect(read).toEqual({
+      rows: [{ householdSize: 1, limitCents: 4_000_000 }, { householdSize: 2, limitCents: 4_550_050 }],
+      issues: [],
+    });
+  });
+
+  it("reports bad cells by spreadsheet row", () => {
+    const read = readLimitTable([["Size", "Limit"], ["one", "$40,000"], ["2", "lots"]], mapping);
+    expect(read.issues).toContainEqual({ row: 2, message: '"one" is not a household size' });
+    expect(read.issues).toContainEqual({ row: 3, message: '"lots" is not a dollar amount' });
+  });
+});
+
+describe("validateLimitRows", () => {
+  it("accepts a complete, rising table", () => {
+    expect(validateLimitRows([{ householdSize: 1, limitCents: 100 }, { householdSize: 2, limitCents: 100 }])).toEqual([]);
+  });
+
+  it("flags empty tables, duplicates, gaps and falling limits", () => {
+    expect(validateLimitRows([])).toEqual([{ row: null, message: "The table has no limits" }]);
+    expect(validateLimitRows([
+      { householdSize: 1, limitCents: 300 },
+      { householdSize: 1, limitCents: 300 },
+      { householdSize: 4, limitCents: 200 },
+    ]).map((issue) => issue.message)).toEqual([
+      "Household size 1 appears more than once",
+      "Missing household sizes 2, 3",
+      "The limit for 4 people is lower than for 1",
+    ]);
+  });
+});
+
+describe("limitTableCells", () => {
+  it("writes a header and rows sorted by household size", () => {
+    expect(limitTableCells([{ householdSize: 2, limitCents: 4_550_050 }, { householdSize: 1, limitCents: 4_000_000 }])).toEqual([
+      ["Household Size", "Income Limit"],
+      ["1", "40000.00"],
+      ["2", "45500.50"],
+    ]);
+  });
+});
+
+describe("compareLimitTables", () => {
+  it("lines up both versions by household size", () => {
+    expect(compareLimitTables(
+      [{ householdSize: 1, limitCents: 4_000_000 }, { householdSize: 2, limitCents: 4_500_000 }],
+      [{ householdSize: 1, limitCents: 4_200_000 }, { householdSize: 3, limitCents: 5_000_000 }],
+    )).toEqual([
+      { householdSize: 1, baseCents: 4_000_000, candidateCents: 4_200_000, deltaCents: 200_000, deltaPercent: 5 },
+      { householdSize: 2, baseCents: 4_500_000, candidateCents: null, deltaCents: null, deltaPercent: null },
+      { householdSize: 3, baseCents: null, candidateCents: 5_000_000, deltaCents: null, deltaPercent: null },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import type { LimitRow } from "./limits";
+
+// Income limit tables as they come in from spreadsheets, and the same layout for export.
+
+export const limitTableHeader = ["Household Size", "Income Limit"];
+
+export interface LimitColumnMapping {
+  sizeColumn: number;
+  limitColumn: number;
+  hasHeader: boolean;
+}
+
+// `row` is the 1-based spreadsheet row, or null for problems with the table as a whole
+export interface LimitTableIssue {
+  row: number | null;
+  message: string;
+}
+
+export interface LimitTableRead {
+  rows: LimitRow[];
+  issues: LimitTableIssue[];
+}
+
+// Picks the household size and limit columns from header text, falling back to the first two
+export function guessLimitColumns(firstRow: string[]): LimitColumnMapping {
+  const find = (pattern: RegExp) => firstRow.findIndex((cell) => pattern.test(cell));
+  const sizeColumn = Math.max(find(/household|size|persons|people|members/i), 0);
+  const limitColumn = find(/limit|income|amount/i);
+  const hasHeader = firstRow.some((cell) => cell.trim() !== "" && parseDollarsToCents(cell) === null);
+  return {
+    sizeColumn,
+    limitColumn: limitColumn >= 0 && limitColumn !== sizeColumn ? limitColumn : sizeColumn === 0 ? 1 : 0,
+    hasHeader,
+  };
+}
+
+// "$52,300.00" -> 5230000; null when the cell isn't an amount
+export function parseDollarsToCents(value: string): number | null {
+  const cleaned = value.trim().replace(/[$,\s]/g, "");
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return null;
+  return Math.round(Number(cleaned) * 100);
+}
+
+export function readLimitTable(cells: string[][], mapping: LimitColumnMapping): LimitTableRead {
+  const rows: LimitRow[] = [];
+  const issues: LimitTableIssue[] = [];
+
+  cells.forEach((cell, index) => {
+    if (mapping.hasHeader && index === 0) return;
+    const rowNumber = index + 1;
+    const sizeText = (cell[mapping.sizeColumn] ?? "").trim();
+    const limitText = (cell[mapping.limitColumn] ?? "").trim();
+    if (sizeText === "" && limitText === "") return;
+
+    const householdSize = Number(sizeText);
+    const limitCents = parseDollarsToCents(limitText);
+    if (!Number.isInteger(householdSize) || householdSize < 1) {
+      issues.push({ row: rowNumber, message: `"${sizeText}" is not a household size` });
+    } else if (limitCents === null) {
+      issues.push({ row: rowNumber, message: `"${limitText}" is not a dollar amount` });
+    } else {
+      rows.push({ householdSize, limitCents });
+    }
+  });
+
+  return { rows, issues: [...issues, ...validateLimitRows(rows)] };
+}
+
+// Table-level checks: each size once, no missing sizes from 1 up, and limits that
+// never drop as households grow.
+export function validateLimitRows(rows: LimitRow[]): LimitTableIssue[] {
+  const issues: LimitTableIssue[] = [];
+  if (rows.length === 0) return [{ row: null, message: "The table has no limits" }];
+
+  const seen = new Set<number>();
+  for (const row of rows) {
+    if (seen.has(row.householdSize)) {
+      issues.push({ row: null, message: `Household size ${row.householdSize} appears more than once` });
+    }
+    seen.add(row.householdSize);
+  }
+
+  const sizes = Array.from(seen).sort((a, b) => a - b);
+  const missing: number[] = [];
+  for (let size = 1; size < sizes[sizes.length - 1]; size++) {
+    if (!seen.has(size)) missing.push(size);
+  }
+  if (missing.length > 0) {
+    issues.push({ row: null, message: `Missing household size${missing.length === 1 ? "" : "s"} ${missing.join(", ")}` });
+  }
+
+  const sorted = [...rows].sort((a, b) => a.householdSize - b.householdSize);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].limitCents < sorted[i - 1].limitCents) {
+      issues.push({
+        row: null,
+        message: `The limit for ${sorted[i].householdSize} people is lower than for ${sorted[i - 1].householdSize}`,
+      });
+    }
+  }
+  return issues;
+}
+
+export function limitTableCells(rows: LimitRow[]): string[][] {
+  return [
+    limitTableHeader,
+    ...[...rows]
+      .sort((a, b) => a.householdSize - b.householdSize)
+      .map((r) => [String(r.householdSize), (r.limitCents / 100).toFixed(2)]),
+  ];
+}
+
+// One household size across two versions. Sides are null where a version has no row.
+export interface LimitComparisonRow {
+  householdSize: number;
+  baseCents: number | null;
+  candidateCents: number | null;
+  deltaCents: number | null;
+  deltaPercent: number | null;
+}
+
+export function compareLimitTables(base: LimitRow[], candidate: LimitRow[]): LimitComparisonRow[] {
+  const sizes = Array.from(new Set([...base, ...candidate].map((r) => r.householdSize))).sort((a, b) => a - b);
+  return sizes.map((householdSize) => {
+    const baseCents = base.find((r) => r.householdSize === householdSize)?.limitCents ?? null;
+    const candidateCents = candidate.find((r) => r.householdSize === householdSize)?.limitCents ?? null;
+    const deltaCents = baseCents !== null && candidateCents !== null ? candidateCents - baseCents : null;
+    return {
+      householdSize,
+      baseCents,
+      candidateCents,
+      deltaCents,
+      deltaPercent: deltaCents !== null && baseCents ? Math.round(deltaCents / baseCents * 1000) / 10 : null,
+    };
+  });
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { assignIncomeTier, getExtrapolationIncrement, lookupLimit, parseIncomeTiers, type LimitRow } from "./limits";
+
+const rows: LimitRow[] = [
+  { householdSize: 1, limitCents: 4_000_000 },
+  { householdSize: 2, limitCents: 4_600_000 },
+  { householdSize: 3, limitCents: 5_200_000 },
+  { householdSize: 4, limitCents: 5_800_000 },
+];
+
+const noExtrapolation = { extrapolationPolicy: "None" as const, extrapolationPercent: null, extrapolationIncrementCents: null };
+const percentOfFourPerson = { ...noExtrapolation, extrapolationPolicy: "PercentOfFourPerson" as const, extrapolationPercent: 8 };
+const fixedIncrement = { ...noExtrapolation, extrapolationPolicy: "FixedIncrement" as const, extrapolationIncrementCents: 500_000 };
+
+describe("lookupLimit", () => {
+  it("uses the configured row for the household size", () => {
+    expect(lookupLimit(rows, 3, noExtrapolation)).toEqual({ limitCents: 5_200_000, extrapolated: false });
+  });
+
+  it("has no limit past the table without an extrapolation policy", () => {
+    expect(lookupLimit(rows, 5, noExtrapolation)).toBeUndefined();
+  });
+
+  it("adds a percentage of the 4-person limit per extra member", () => {
+    // 8% of $58,000 is $4,640 per member
+    expect(lookupLimit(rows, 6, percentOfFourPerson)).toEqual({ limitCents: 5_800_000 + 2 * 464_000, extrapolated: true });
+  });
+
+  it("adds a fixed amount per extra member", () => {
+    expect(lookupLimit(rows, 5, fixedIncrement)).toEqual({ limitCents: 6_300_000, extrapolated: true });
+  });
+
+  it("doesn't fill gaps inside the table", () => {
+    const gappy = rows.filter((r) => r.householdSize !== 2);
+    expect(lookupLimit(gappy, 2, fixedIncrement)).toBeUndefined();
+  });
+});
+
+describe("getExtrapolationIncrement", () => {
+  it("can't apply the percentage policy without a 4-person row", () => {
+    expect(getExtrapolationIncrement(rows.slice(0, 3), percentOfFourPerson)).toBeNull();
+  });
+});
+
+describe("parseIncomeTiers", () => {
+  it("reads valid tiers and ignores malformed JSON", () => {
+    expect(parseIncomeTiers('[{"name":"Full","percentOfLimit":50}]')).toEqual([{ name: "Full", percentOfLimit: 50 }]);
+    expect(parseIncomeTiers("not json")).toEqual([]);
+    expect(parseIncomeTiers('[{"name":""}]')).toEqual([]);
+  });
+});
+
+describe("assignIncomeTier", () => {
+  const tiers = [
+    { name: "Partial", percentOfLimit: 100 },
+    { name: "Full", percentOfLimit: 50 },
+  ];
+
+  it("picks the lowest tier the income falls under", () => {
+    expect(assignIncomeTier(2_000_000, 5_000_000, tiers)?.name).toBe("Full");
+    expect(assignIncomeTier(2_500_000, 5_000_000, tiers)?.name).toBe("Full");
+    expect(assignIncomeTier(2_500_001, 5_000_000, tiers)?.name).toBe("Partial");
+  });
+
+  it("has no tier for income over every threshold", () => {
+    expect(assignIncomeTier(5_000_001, 5_000_000, tiers)).toBeUndefined();
+  });
+});
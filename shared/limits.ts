@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { incomeTierSchema, type IncomeTier, type Program } from "./schema";
+
+export interface LimitRow {
+  householdSize: number;
+  limitCents: number;
+}
+
+export interface LimitLookup {
+  limitCents: number;
+  extrapolated: boolean;
+}
+
+type ExtrapolationSettings = Pick<Program, "extrapolationPolicy" | "extrapolationPercent" | "extrapolationIncrementCents">;
+
+// Per-member amount added beyond the largest configured household size, or
+// null when the policy can't be applied to this table.
+export function getExtrapolationIncrement(rows: LimitRow[], settings: ExtrapolationSettings): number | null {
+  switch (settings.extrapolationPolicy) {
+    case "PercentOfFourPerson": {
+      // HUD-style: each additional member adds a percentage of the 4-person limit
+      const fourPerson = rows.find(r => r.householdSize === 4);
+      if (!fourPerson || settings.extrapolationPercent === null) return null;
+      return Math.round(fourPerson.limitCents * settings.extrapolationPercent / 100);
+    }
+    case "FixedIncrement":
+      return settings.extrapolationIncrementCents;
+    default:
+      return null;
+  }
+}
+
+// Exact household size match first; larger households are extrapolated from
+// the largest configured size according to the program's policy.
+export function lookupLimit(rows: LimitRow[], householdSize: number, settings: ExtrapolationSettings): LimitLookup | undefined {
+  const exact = rows.find(r => r.householdSize === householdSize);
+  if (exact) return { limitCents: exact.limitCents, extrapolated: false };
+
+  const largest = rows.reduce<LimitRow | undefined>(
+    (max, r) => (!max || r.householdSize > max.householdSize ? r : max),
+    undefined
+  );
+  if (!largest || householdSize < largest.householdSize) return undefined;
+
+  const increment = getExtrapolationIncrement(rows, settings);
+  if (increment === null) return undefined;
+
+  return {
+    limitCents: largest.limitCents + (householdSize - largest.householdSize) * increment,
+    extrapolated: true,
+  };
+}
+
+export function parseIncomeTiers(value: string | null | undefined): IncomeTier[] {
+  try {
+    const parsed = z.array(incomeTierSchema).safeParse(JSON.parse(value || "[]"));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+// The best tier a household qualifies for: the one with the lowest threshold
+// its income still falls under.
+export function assignIncomeTier(incomeCents: number, limitCents: number, tiers: IncomeTier[]): IncomeTier | undefined {
+  return [...tiers]
+    .sort((a, b) => a.percentOfLimit - b.percentOfLimit)
+    .find(tier => incomeCents <= Math.round(limitCents * tier.percentOfLimit / 100));
+}
@@ -0,0 +1,47 @@
+import type { Application, Program } from "./schema";
+
+export function parseJsonArray(value: string | null | undefined): string[] {
+  try {
+    const parsed = JSON.parse(value || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export const LANDLORD_CONSENT_REQUIREMENT = "Landlord consent form";
+
+export function categoricalProofRequirement(enrollment: string): string {
+  return `Proof of ${enrollment} enrollment`;
+}
+
+// Enrollments the applicant claimed that this program accepts for categorical eligibility
+export function getClaimedCategoricalPrograms(
+  program: Pick<Program, "categoricalPrograms">,
+  application: Pick<Application, "categoricalEnrollments">
+): string[] {
+  const accepted = parseJsonArray(program.categoricalPrograms);
+  return parseJsonArray(application.categoricalEnrollments).filter(e => accepted.includes(e));
+}
+
+// Documents every application must include: the program's own list, plus landlord consent for renters
+export function getRequiredDocuments(
+  program: Pick<Program, "documentRequirements">,
+  application: Pick<Application, "residenceType">
+): string[] {
+  const required = parseJsonArray(program.documentRequirements);
+  return application.residenceType === "Rent" && !required.includes(LANDLORD_CONSENT_REQUIREMENT)
+    ? [...required, LANDLORD_CONSENT_REQUIREMENT]
+    : required;
+}
+
+// Required documents plus proof for each categorical enrollment claimed
+export function getDocumentRequirements(
+  program: Pick<Program, "documentRequirements" | "categoricalPrograms">,
+  application: Pick<Application, "categoricalEnrollments" | "residenceType">
+): string[] {
+  return [
+    ...getRequiredDocuments(program, application),
+    ...getClaimedCategoricalPrograms(program, application).map(categoricalProofRequirement),
+  ];
+}
@@ -3,16 +3,35 @@ import {
   insertUserSchema, 
   insertProgramSchema, 
   insertIncomeLimitSchema, 
+  insertIncomeLimitVersionSchema,
   insertApplicationSchema,
+  insertIncomeLineItemSchema,
+  insertAmiTableSchema,
+  amiAreaFormSchema,
   users,
   programs,
   incomeLimits,
+  incomeLimitVersions,
+  amiTables,
+  amiAreas,
+  amiIncomes,
   applications,
+  incomeLineItems,
   documents,
   activityEvents,
   userRoles,
   applicationStatuses,
-  systemResults
+  systemResults,
+  categoricalProgramOptions,
+  residenceTypeOptions,
+  propertyTypeOptions,
+  reevaluationChangeSchema,
+  programCapacitySchema,
+  serviceAreaCountySchema,
+  submissionIssueSchema,
+  ruleResultSchema,
+  type LimitSnapshot,
+  type EligibilityTrace
 } from './schema';
 
 export const errorSchemas = {
@@ -29,6 +48,9 @@ export const errorSchemas = {
   unauthorized: z.object({
     message: z.string(),
   }),
+  conflict: z.object({
+    message: z.string(),
+  }),
 };
 
 // Custom Inputs
@@ -43,13 +65,75 @@ export const startApplicationSchema = z.object({
   applicantEmail: z.string().email("Invalid email address"),
 });
 
-export const updateApplicationSchema = insertApplicationSchema.partial();
+export const prescreenSchema = z.object({
+  programId: z.coerce.number(),
+  zip: z.string().regex(/^\d{5}$/, "Must be 5-digit ZIP"),
+  residenceType: z.enum(residenceTypeOptions).nullable().default(null),
+  propertyType: z.enum(propertyTypeOptions).nullable().default(null),
+  householdSize: z.coerce.number().int().min(1, "Household size must be at least 1"),
+  annualIncomeCents: z.coerce.number().int().min(0, "Income cannot be negative"),
+  categoricalEnrollments: z.array(z.enum(categoricalProgramOptions)).default([]),
+});
+
+// The only fields an applicant may change through their link. Status, results and
+// program are set by the server; unknown keys are rejected rather than ignored.
+export const applicantUpdateSchema = insertApplicationSchema.pick({
+  applicantName: true,
+  applicantEmail: true,
+  applicantPhone: true,
+  applicantDateOfBirth: true,
+  addressLine1: true,
+  city: true,
+  state: true,
+  zip: true,
+  residenceType: true,
+  propertyType: true,
+  householdSize: true,
+  categoricalEnrollments: true,
+  customFieldValues: true,
+  lastCompletedStep: true,
+}).extend({
+  applicantName: z.string().min(1, "Name is required"),
+  applicantEmail: z.string().email("Invalid email address"),
+  applicantDateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date of birth must be YYYY-MM-DD").nullable(),
+  zip: z.string().regex(/^(\d{5})?$/, "Must be 5-digit ZIP").nullable(),
+  householdSize: z.number().int().min(1, "Household size must be at least 1").nullable(),
+  // The updatedAt this edit was based on; a newer one means another tab saved first
+  expectedUpdatedAt: z.coerce.date(),
+}).partial().strict();
+
+export const replaceIncomeLineItemsSchema = z.object({
+  items: z.array(insertIncomeLineItemSchema.omit({ applicationId: true })),
+  expectedUpdatedAt: z.coerce.date().optional(), // As on applicantUpdateSchema
+}).strict();
 
 export const submitDecisionSchema = z.object({
   status: z.enum(["Approved", "Denied", "NeedsInfo"]),
   note: z.string().min(1, "Note is required"),
+}).strict();
+
+export const reevaluateSchema = z.object({
+  apply: z.boolean().default(false),
+});
+
+export const duplicateProgramSchema = z.object({
+  name: z.string().min(1, "Program name required"),
+  effectiveStart: z.coerce.date(),
+  effectiveEnd: z.coerce.date().nullable().optional(),
+  upliftPercent: z.coerce.number().min(-100, "Uplift cannot be below -100%").default(0), // Applied to every copied limit
+}).refine(d => !d.effectiveEnd || d.effectiveEnd > d.effectiveStart, {
+  message: "End date must be after the start date",
+  path: ["effectiveEnd"],
 });
 
+// A draft limit version and its whole table, created together from a spreadsheet import
+export const importLimitVersionSchema = insertIncomeLimitVersionSchema.omit({ programId: true }).extend({
+  limits: z.array(z.object({
+    householdSize: z.number().int().min(1),
+    limitCents: z.number().int().min(0),
+  }).strict()).min(1, "The table has no limits"),
+}).strict();
+
 export const validateZipSchema = z.object({
   programId: z.number(),
   zipCode: z.string(),
@@ -82,9 +166,12 @@ export const api = {
     }
   },
   programs: {
-    list: {
+    list: { // Only open programs unless an authenticated user asks for includeClosed
       method: 'GET' as const,
       path: '/api/programs',
+      input: z.object({
+        includeClosed: z.enum(["true", "false"]).optional(),
+      }).optional(),
       responses: {
         200: z.array(z.custom<typeof programs.$inferSelect>()),
       }
@@ -92,9 +179,18 @@ export const api = {
     create: {
       method: 'POST' as const,
       path: '/api/programs',
-      input: insertProgramSchema,
+      input: insertProgramSchema.strict(),
       responses: {
         201: z.custom<typeof programs.$inferSelect>(),
+        400: errorSchemas.validation, // Criteria JSON doesn't match eligibilityCriteriaSchema
+        409: errorSchemas.conflict, // Slug taken by another program
+      }
+    },
+    capacity: { // Funding caps and usage for every program
+      method: 'GET' as const,
+      path: '/api/programs/capacity',
+      responses: {
+        200: z.array(programCapacitySchema),
       }
     },
     get: {
@@ -108,7 +204,17 @@ export const api = {
     update: {
       method: 'PATCH' as const,
       path: '/api/programs/:id',
-      input: insertProgramSchema.partial(),
+      input: insertProgramSchema.partial().strict(),
+      responses: {
+        200: z.custom<typeof programs.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    },
+    getBySlug: { // Public landing page; archived programs are not found
+      method: 'GET' as const,
+      path: '/api/programs/by-slug/:slug',
       responses: {
         200: z.custom<typeof programs.$inferSelect>(),
         404: errorSchemas.notFound,
@@ -122,30 +228,171 @@ export const api = {
         200: z.object({ valid: z.boolean(), message: z.string().nullable() }),
       }
     },
+    archive: {
+      method: 'POST' as const,
+      path: '/api/programs/:id/archive',
+      responses: {
+        200: z.custom<typeof programs.$inferSelect>(),
+        404: errorSchemas.notFound,
+      }
+    },
+    unarchive: {
+      method: 'POST' as const,
+      path: '/api/programs/:id/unarchive',
+      responses: {
+        200: z.custom<typeof programs.$inferSelect>(),
+        404: errorSchemas.notFound,
+      }
+    },
+    delete: { // Only programs that never received an application; archive the rest
+      method: 'DELETE' as const,
+      path: '/api/programs/:id',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    },
+    duplicate: { // Copies settings and the latest limit version (as a Draft) into a new program
+      method: 'POST' as const,
+      path: '/api/programs/:id/duplicate',
+      input: duplicateProgramSchema,
+      responses: {
+        201: z.custom<typeof programs.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      }
+    },
+    reevaluate: { // Dry run unless apply is set
+      method: 'POST' as const,
+      path: '/api/programs/:id/reevaluate',
+      input: reevaluateSchema,
+      responses: {
+        200: z.object({
+          applied: z.boolean(),
+          evaluated: z.number(),
+          changes: z.array(reevaluationChangeSchema),
+        }),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      }
+    },
+  },
+  limitVersions: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/programs/:id/limit-versions',
+      responses: {
+        200: z.array(z.custom<typeof incomeLimitVersions.$inferSelect>()),
+      }
+    },
+    create: { // Starts a draft, optionally copying another version's rows
+      method: 'POST' as const,
+      path: '/api/programs/:id/limit-versions',
+      input: insertIncomeLimitVersionSchema.omit({ programId: true }).extend({
+        copyFromVersionId: z.number().optional(),
+      }).strict(),
+      responses: {
+        201: z.custom<typeof incomeLimitVersions.$inferSelect>(),
+        400: errorSchemas.validation,
+      }
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/programs/:id/limit-versions/:versionId',
+      input: insertIncomeLimitVersionSchema.omit({ programId: true }).partial().strict(),
+      responses: {
+        200: z.custom<typeof incomeLimitVersions.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    },
+    publish: {
+      method: 'POST' as const,
+      path: '/api/programs/:id/limit-versions/:versionId/publish',
+      responses: {
+        200: z.custom<typeof incomeLimitVersions.$inferSelect>(),
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/programs/:id/limit-versions/:versionId',
+      responses: {
+        204: z.void(),
+        409: errorSchemas.conflict,
+      }
+    },
+    parseImport: { // Reads an uploaded CSV or XLSX (multipart "file") into cells for column mapping
+      method: 'POST' as const,
+      path: '/api/programs/:id/limit-versions/import/parse',
+      responses: {
+        200: z.object({ cells: z.array(z.array(z.string())) }),
+        400: errorSchemas.validation,
+      }
+    },
+    import: {
+      method: 'POST' as const,
+      path: '/api/programs/:id/limit-versions/import',
+      input: importLimitVersionSchema,
+      responses: {
+        201: z.custom<typeof incomeLimitVersions.$inferSelect>(),
+        400: errorSchemas.validation, // Duplicate sizes, gaps or limits that drop as households grow
+      }
+    },
+    impact: { // Pending applications whose system result would change if this version applied
+      method: 'GET' as const,
+      path: '/api/programs/:id/limit-versions/:versionId/impact',
+      responses: {
+        200: z.object({
+          evaluated: z.number(),
+          changes: z.array(reevaluationChangeSchema),
+        }),
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    },
+    export: { // The version's table as a download, in the layout import reads
+      method: 'GET' as const,
+      path: '/api/programs/:id/limit-versions/:versionId/export',
+      input: z.object({
+        format: z.enum(["csv", "xlsx"]).optional(),
+      }).optional(),
+      responses: {
+        200: z.any(), // File blob
+        404: errorSchemas.notFound,
+      }
+    },
   },
   incomeLimits: {
     list: {
       method: 'GET' as const,
-      path: '/api/programs/:id/limits',
+      path: '/api/programs/:id/limit-versions/:versionId/limits',
       responses: {
         200: z.array(z.custom<typeof incomeLimits.$inferSelect>()),
       }
     },
-    create: { // Can be used to seed/add limits
+    create: { // Draft versions only
       method: 'POST' as const,
-      path: '/api/programs/:id/limits',
-      input: insertIncomeLimitSchema.omit({ programId: true }),
+      path: '/api/programs/:id/limit-versions/:versionId/limits',
+      input: insertIncomeLimitSchema.omit({ programId: true, versionId: true }).strict(),
       responses: {
         201: z.custom<typeof incomeLimits.$inferSelect>(),
+        400: errorSchemas.validation,
+        409: errorSchemas.conflict,
       }
     },
     update: {
       method: 'PATCH' as const,
       path: '/api/programs/:id/limits/:limitId',
-      input: insertIncomeLimitSchema.partial().omit({ programId: true }),
+      input: insertIncomeLimitSchema.partial().omit({ programId: true, versionId: true }).strict(),
       responses: {
         200: z.custom<typeof incomeLimits.$inferSelect>(),
+        400: errorSchemas.validation,
         404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
       }
     },
     delete: {
@@ -153,40 +400,136 @@ export const api = {
       path: '/api/programs/:id/limits/:limitId',
       responses: {
         204: z.void(),
+        409: errorSchemas.conflict,
+      }
+    },
+  },
+  amiTables: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/ami-tables',
+      responses: {
+        200: z.array(z.custom<typeof amiTables.$inferSelect>()),
+      }
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/ami-tables',
+      input: insertAmiTableSchema.strict(),
+      responses: {
+        201: z.custom<typeof amiTables.$inferSelect>(),
+        400: errorSchemas.validation,
+      }
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/ami-tables/:id',
+      responses: {
+        200: z.custom<typeof amiTables.$inferSelect & {
+          areas: (typeof amiAreas.$inferSelect & { incomes: typeof amiIncomes.$inferSelect[] })[]
+        }>(),
+        404: errorSchemas.notFound,
+      }
+    },
+    createArea: {
+      method: 'POST' as const,
+      path: '/api/ami-tables/:id/areas',
+      input: amiAreaFormSchema.strict(),
+      responses: {
+        201: z.custom<typeof amiAreas.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      }
+    },
+    deleteArea: {
+      method: 'DELETE' as const,
+      path: '/api/ami-tables/:id/areas/:areaId',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound, // No such area in this table
       }
     },
   },
   applications: {
     // Public Applicant Routes
+    prescreen: { // Anonymous estimate; nothing is stored
+      method: 'POST' as const,
+      path: '/api/applications/prescreen',
+      input: prescreenSchema,
+      responses: {
+        200: z.object({
+          systemResult: z.enum(systemResults),
+          limitCents: z.number().nullable(),
+          limitExtrapolated: z.boolean(),
+          incomeTier: z.string().nullable(),
+          results: z.array(ruleResultSchema),
+        }),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      }
+    },
     start: {
       method: 'POST' as const,
       path: '/api/applications/start',
       input: startApplicationSchema,
       responses: {
         201: z.object({ token: z.string(), id: z.number() }), // Return token to redirect
+        400: errorSchemas.validation, // Program not open
+        404: errorSchemas.notFound,
       }
     },
     getByToken: {
       method: 'GET' as const,
       path: '/api/applications/by-token/:token',
       responses: {
-        200: z.custom<typeof applications.$inferSelect & { documents: typeof documents.$inferSelect[], activityEvents: typeof activityEvents.$inferSelect[] }>(),
+        200: z.custom<typeof applications.$inferSelect & { 
+          incomeLineItems: typeof incomeLineItems.$inferSelect[],
+          documents: typeof documents.$inferSelect[], 
+          activityEvents: typeof activityEvents.$inferSelect[],
+          program: typeof programs.$inferSelect,
+          trace: EligibilityTrace | null
+        }>(),
         404: errorSchemas.notFound,
       }
     },
     updateByToken: {
       method: 'PATCH' as const,
       path: '/api/applications/by-token/:token',
-      input: updateApplicationSchema,
+      input: applicantUpdateSchema,
       responses: {
         200: z.custom<typeof applications.$inferSelect>(),
+        400: errorSchemas.validation, // Fields outside applicantUpdateSchema, or answers that don't match the program's fields
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict, // Saved from another tab since expectedUpdatedAt
+      }
+    },
+    replaceIncomeByToken: { // Replaces all line items and recomputes annualIncomeCents
+      method: 'PUT' as const,
+      path: '/api/applications/by-token/:token/income',
+      input: replaceIncomeLineItemsSchema,
+      responses: {
+        200: z.object({
+          incomeLineItems: z.array(z.custom<typeof incomeLineItems.$inferSelect>()),
+          annualIncomeCents: z.number().nullable(),
+          updatedAt: z.coerce.date().nullable(),
+        }),
+        400: errorSchemas.validation,
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict, // Saved from another tab since expectedUpdatedAt
       }
     },
     submitByToken: {
       method: 'POST' as const,
       path: '/api/applications/by-token/:token/submit',
       responses: {
-        200: z.custom<typeof applications.$inferSelect>(), // Returns updated status and system result
+        200: z.custom<typeof applications.$inferSelect & { missingDocuments: string[] }>(), // Returns updated status, system result and unmet document requirements
+        400: errorSchemas.validation.extend({
+          issues: z.array(submissionIssueSchema).optional(), // Missing or invalid answers; absent when the program window has passed
+        }),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
       }
     },
     
@@ -208,10 +551,12 @@ export const api = {
       path: '/api/applications/:id',
       responses: {
         200: z.custom<typeof applications.$inferSelect & { 
+          incomeLineItems: typeof incomeLineItems.$inferSelect[],
           documents: typeof documents.$inferSelect[], 
           activityEvents: (typeof activityEvents.$inferSelect & { user: typeof users.$inferSelect | null })[],
           program: typeof programs.$inferSelect,
-          incomeLimitSnapshot: typeof incomeLimits.$inferSelect | null
+          incomeLimitSnapshot: LimitSnapshot | null,
+          trace: EligibilityTrace | null
         }>(),
         404: errorSchemas.notFound,
       }
@@ -222,6 +567,27 @@ export const api = {
       input: submitDecisionSchema,
       responses: {
         200: z.custom<typeof applications.$inferSelect>(),
+        400: errorSchemas.validation,
+        409: errorSchemas.conflict, // Approving would exceed the funding caps, or the application is waitlisted
+      }
+    },
+    promote: { // Admins move the earliest waitlisted application back into review
+      method: 'POST' as const,
+      path: '/api/applications/:id/promote',
+      responses: {
+        200: z.custom<typeof applications.$inferSelect>(),
+        403: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    }
+  },
+  serviceAreas: {
+    counties: {
+      method: 'GET' as const,
+      path: '/api/service-areas/counties',
+      responses: {
+        200: z.array(serviceAreaCountySchema),
       }
     }
   },
@@ -5,11 +5,22 @@ import { z } from "zod";
 
 // --- ENUMS ---
 export const userRoles = ["Admin", "Reviewer"] as const;
-export const applicationStatuses = ["Draft", "Submitted", "NeedsInfo", "Approved", "Denied"] as const;
+export const applicationStatuses = ["Draft", "Submitted", "NeedsInfo", "Waitlisted", "Approved", "Denied"] as const;
 export const systemResults = ["Eligible", "NotEligible", "NeedsReview"] as const;
+export const ruleOutcomes = ["Pass", "Fail", "NeedsReview"] as const;
 export const activityTypes = ["Note", "System", "RequestInfo", "StatusChange"] as const;
 export const residenceTypeOptions = ["Own", "Rent", "Other"] as const;
 export const propertyTypeOptions = ["Single-family", "Multi-family", "Condo"] as const;
+export const limitBases = ["Fixed", "AMI"] as const;
+export const limitVersionStatuses = ["Draft", "Published"] as const;
+export const extrapolationPolicies = ["None", "PercentOfFourPerson", "FixedIncrement"] as const;
+export const incomeSourceTypes = ["Wages", "SelfEmployment", "SocialSecurity", "SSI", "Pension", "Unemployment", "ChildSupport", "Other"] as const;
+export const payFrequencies = ["Weekly", "Biweekly", "Monthly", "Annual"] as const;
+export const categoricalProgramOptions = ["SNAP", "LIHEAP", "Medicaid", "SSI"] as const;
+export const eligibilityPaths = ["Income", "Categorical"] as const;
+export const customFieldTypes = ["Text", "Number", "Date", "Select", "Checkbox"] as const;
+export const criterionTypes = ["StateEquals", "HouseholdSizeRange", "IncomeSourceExcluded", "MinimumAge"] as const;
+export const wizardSteps = ["contact", "household", "questions", "assistance", "income", "documents", "review"] as const;
 
 // --- TABLES ---
 
@@ -25,28 +36,89 @@ export const programs = pgTable("programs", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   regionLabel: text("region_label").notNull(),
+  slug: text("slug").unique(), // Public landing page at /programs/:slug
+  description: text("description"), // Markdown shown on the landing page
   effectiveStart: timestamp("effective_start").notNull(),
   effectiveEnd: timestamp("effective_end"), // Nullable
+  submissionGraceDays: integer("submission_grace_days").notNull().default(0), // Drafts started before close may submit this long after
 
   // Program Requirements
   residenceTypes: text("residence_types").notNull().default("[]"), // JSON array
   propertyTypes: text("property_types").notNull().default("[]"), // JSON array
   documentRequirements: text("document_requirements").notNull().default("[]"), // JSON array
-  eligibilityCriteria: text("eligibility_criteria"), // Free-form text
+  eligibilityCriteria: text("eligibility_criteria"), // Optional free-text description shown to applicants
+  criteria: text("criteria").notNull().default("[]"), // JSON array of EligibilityCriterion, evaluated at submit
   allowedZipCodes: text("allowed_zip_codes").notNull().default("[]"), // JSON array
+  serviceAreas: text("service_areas").notNull().default("[]"), // JSON array of ServiceArea, resolved from the applicant's ZIP
+  categoricalPrograms: text("categorical_programs").notNull().default("[]"), // JSON array of enrollments that auto-qualify
+  customFields: text("custom_fields").notNull().default("[]"), // JSON array of CustomField asked in the wizard
 
+  // Income Limit Basis
+  limitBasis: text("limit_basis", { enum: limitBases }).notNull().default("Fixed"),
+  amiTableId: integer("ami_table_id"), // Used when limitBasis is "AMI"
+  amiPercent: integer("ami_percent"), // e.g. 80 for "<= 80% AMI"
+
+  // Households larger than the limit table
+  extrapolationPolicy: text("extrapolation_policy", { enum: extrapolationPolicies }).notNull().default("None"),
+  extrapolationPercent: integer("extrapolation_percent").default(8), // % of 4-person limit per extra member
+  extrapolationIncrementCents: integer("extrapolation_increment_cents"), // Fixed amount per extra member
+
+  // Named benefit bands as a percentage of the household's limit
+  incomeTiers: text("income_tiers").notNull().default("[]"), // JSON array of IncomeTier
+
+  // Funding caps; null means unlimited
+  maxApprovals: integer("max_approvals"),
+  budgetCents: integer("budget_cents"),
+  awardCents: integer("award_cents"), // Benefit per approved household, counted against the budget
+
+  archivedAt: timestamp("archived_at"), // Archived programs are hidden from applicants but stay reviewable
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A set of income limits effective for a date range. Published versions are read-only.
+export const incomeLimitVersions = pgTable("income_limit_versions", {
+  id: serial("id").primaryKey(),
+  programId: integer("program_id").notNull(),
+  label: text("label").notNull(), // e.g., "2024-V1"
+  effectiveStart: timestamp("effective_start").notNull(),
+  effectiveEnd: timestamp("effective_end"), // Nullable
+  status: text("status", { enum: limitVersionStatuses }).notNull().default("Draft"),
+  publishedAt: timestamp("published_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const incomeLimits = pgTable("income_limits", {
   id: serial("id").primaryKey(),
   programId: integer("program_id").notNull(),
+  versionId: integer("version_id").notNull(),
   householdSize: integer("household_size").notNull(),
   limitCents: integer("limit_cents").notNull(),
-  versionLabel: text("version_label").notNull(), // e.g., "2024-V1"
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Area Median Income datasets (e.g. HUD FY2024), with median income per area and household size
+export const amiTables = pgTable("ami_tables", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  datasetVersion: text("dataset_version").notNull(), // e.g., "HUD-FY2024"
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const amiAreas = pgTable("ami_areas", {
+  id: serial("id").primaryKey(),
+  amiTableId: integer("ami_table_id").notNull(),
+  areaName: text("area_name").notNull(), // e.g., "Kings County, NY"
+  zipCodes: text("zip_codes").notNull().default("[]"), // JSON array
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const amiIncomes = pgTable("ami_incomes", {
+  id: serial("id").primaryKey(),
+  amiAreaId: integer("ami_area_id").notNull(),
+  householdSize: integer("household_size").notNull(),
+  medianIncomeCents: integer("median_income_cents").notNull(),
+});
+
 export const applications = pgTable("applications", {
   id: serial("id").primaryKey(),
   programId: integer("program_id").notNull(),
@@ -56,24 +128,37 @@ export const applications = pgTable("applications", {
   applicantEmail: text("applicant_email").notNull(),
   applicantPhone: text("applicant_phone"),
   applicantToken: text("applicant_token").notNull().unique(),
+  applicantDateOfBirth: date("applicant_date_of_birth"), // Collected when a program has an age criterion
   
   // Address
   addressLine1: text("address_line1"),
   city: text("city"),
   state: text("state"),
   zip: text("zip"),
+  residenceType: text("residence_type", { enum: residenceTypeOptions }),
+  propertyType: text("property_type", { enum: propertyTypeOptions }),
   
   // Financials
   householdSize: integer("household_size"),
   annualIncomeCents: integer("annual_income_cents"),
+  categoricalEnrollments: text("categorical_enrollments").notNull().default("[]"), // JSON array of claimed enrollments
+
+  // Answers to the program's custom fields
+  customFieldValues: text("custom_field_values").notNull().default("{}"), // JSON object keyed by CustomField key
   
   // System Calculation
   computedLimitCents: integer("computed_limit_cents"),
+  limitExtrapolated: boolean("limit_extrapolated").notNull().default(false),
+  incomeTier: text("income_tier"), // Name of the qualifying tier, if the program defines tiers
+  eligibilityPath: text("eligibility_path", { enum: eligibilityPaths }),
+  limitSnapshot: text("limit_snapshot"), // JSON LimitSnapshot captured at submission
+  eligibilityTrace: text("eligibility_trace"), // JSON EligibilityTrace captured at submission
   systemResult: text("system_result", { enum: systemResults }), // Nullable initially
   ruleVersion: text("rule_version"),
   
   // Status
   status: text("status", { enum: applicationStatuses }).notNull().default("Draft"),
+  lastCompletedStep: text("last_completed_step", { enum: wizardSteps }), // The wizard reopens at the step after this
   submittedAt: timestamp("submitted_at"),
   reviewedBy: integer("reviewed_by"), // FK to users
   
@@ -81,6 +166,16 @@ export const applications = pgTable("applications", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const incomeLineItems = pgTable("income_line_items", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull(),
+  memberName: text("member_name").notNull(),
+  sourceType: text("source_type", { enum: incomeSourceTypes }).notNull(),
+  amountCents: integer("amount_cents").notNull(), // Per pay period
+  frequency: text("frequency", { enum: payFrequencies }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const documents = pgTable("documents", {
   id: serial("id").primaryKey(),
   applicationId: integer("application_id").notNull(),
@@ -88,6 +183,7 @@ export const documents = pgTable("documents", {
   path: text("path").notNull(),
   mimeType: text("mime_type").notNull(),
   sizeBytes: integer("size_bytes").notNull(),
+  requirement: text("requirement"), // One of the program's documentRequirements, if tagged
   uploadedAt: timestamp("uploaded_at").defaultNow(),
 });
 
@@ -103,15 +199,47 @@ export const activityEvents = pgTable("activity_events", {
 // --- RELATIONS ---
 
 export const programsRelations = relations(programs, ({ many }) => ({
+  incomeLimitVersions: many(incomeLimitVersions),
   incomeLimits: many(incomeLimits),
   applications: many(applications),
 }));
 
+export const incomeLimitVersionsRelations = relations(incomeLimitVersions, ({ one, many }) => ({
+  program: one(programs, {
+    fields: [incomeLimitVersions.programId],
+    references: [programs.id],
+  }),
+  incomeLimits: many(incomeLimits),
+}));
+
 export const incomeLimitsRelations = relations(incomeLimits, ({ one }) => ({
   program: one(programs, {
     fields: [incomeLimits.programId],
     references: [programs.id],
   }),
+  version: one(incomeLimitVersions, {
+    fields: [incomeLimits.versionId],
+    references: [incomeLimitVersions.id],
+  }),
+}));
+
+export const amiTablesRelations = relations(amiTables, ({ many }) => ({
+  areas: many(amiAreas),
+}));
+
+export const amiAreasRelations = relations(amiAreas, ({ one, many }) => ({
+  table: one(amiTables, {
+    fields: [amiAreas.amiTableId],
+    references: [amiTables.id],
+  }),
+  incomes: many(amiIncomes),
+}));
+
+export const amiIncomesRelations = relations(amiIncomes, ({ one }) => ({
+  area: one(amiAreas, {
+    fields: [amiIncomes.amiAreaId],
+    references: [amiAreas.id],
+  }),
 }));
 
 export const applicationsRelations = relations(applications, ({ one, many }) => ({
@@ -119,6 +247,7 @@ export const applicationsRelations = relations(applications, ({ one, many }) =>
     fields: [applications.programId],
     references: [programs.id],
   }),
+  incomeLineItems: many(incomeLineItems),
   documents: many(documents),
   activityEvents: many(activityEvents),
   reviewer: one(users, {
@@ -127,6 +256,13 @@ export const applicationsRelations = relations(applications, ({ one, many }) =>
   }),
 }));
 
+export const incomeLineItemsRelations = relations(incomeLineItems, ({ one }) => ({
+  application: one(applications, {
+    fields: [incomeLineItems.applicationId],
+    references: [applications.id],
+  }),
+}));
+
 export const documentsRelations = relations(documents, ({ one }) => ({
   application: one(applications, {
     fields: [documents.applicationId],
@@ -148,8 +284,86 @@ export const activityEventsRelations = relations(activityEvents, ({ one }) => ({
 // --- SCHEMAS ---
 
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
-export const insertProgramSchema = createInsertSchema(programs).omit({ id: true, createdAt: true });
-export const insertIncomeLimitSchema = createInsertSchema(incomeLimits).omit({ id: true, createdAt: true });
+// Structured conditions on application fields. Every condition must hold.
+export const eligibilityCriterionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("StateEquals"), state: z.string().regex(/^[A-Z]{2}$/, "Use a 2-letter state code") }),
+  z.object({
+    type: z.literal("HouseholdSizeRange"),
+    min: z.number().int().min(1).nullable(),
+    max: z.number().int().min(1).nullable(),
+  }),
+  z.object({ type: z.literal("IncomeSourceExcluded"), sourceType: z.enum(incomeSourceTypes) }),
+  z.object({ type: z.literal("MinimumAge"), age: z.number().int().min(1).max(120) }),
+]).superRefine((criterion, ctx) => {
+  if (criterion.type !== "HouseholdSizeRange") return;
+  if (criterion.min === null && criterion.max === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Set a minimum, a maximum or both", path: ["min"] });
+  } else if (criterion.min !== null && criterion.max !== null && criterion.min > criterion.max) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Minimum cannot exceed maximum", path: ["max"] });
+  }
+});
+
+export const eligibilityCriteriaSchema = z.array(eligibilityCriterionSchema);
+
+export const programSlugSchema = z.string().regex(
+  /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+  "Use lowercase letters, digits and single hyphens"
+);
+
+// A whole state or county a program serves, in addition to any listed ZIP codes.
+export const serviceAreaSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("State"), state: z.string().regex(/^[A-Z]{2}$/, "Use a 2-letter state code") }),
+  z.object({
+    type: z.literal("County"),
+    state: z.string().regex(/^[A-Z]{2}$/, "Use a 2-letter state code"),
+    county: z.string().min(1, "County required"),
+  }),
+]);
+
+export const serviceAreasSchema = z.array(serviceAreaSchema);
+
+// A county in the bundled ZIP dataset, offered when building service areas
+export const serviceAreaCountySchema = z.object({
+  state: z.string(),
+  county: z.string(),
+  zipCount: z.number(),
+});
+
+// An extra question a program asks applicants. The key is where the answer is stored.
+export const customFieldSchema = z.object({
+  key: z.string().regex(/^[a-z0-9_]+$/, "Keys use lowercase letters, digits and underscores"),
+  label: z.string().min(1, "Label required"),
+  type: z.enum(customFieldTypes),
+  required: z.boolean().default(false),
+  options: z.array(z.string().min(1)).default([]), // Select only
+  helpText: z.string().optional(),
+}).refine(f => f.type !== "Select" || f.options.length > 0, {
+  message: "Select fields need at least one option",
+  path: ["options"],
+});
+
+export const customFieldsSchema = z.array(customFieldSchema).refine(
+  fields => new Set(fields.map(f => f.key)).size === fields.length,
+  { message: "Field keys must be unique" }
+);
+
+export const customFieldValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const insertProgramSchema = createInsertSchema(programs, {
+  effectiveStart: z.coerce.date(),
+  effectiveEnd: z.coerce.date().nullable().optional(),
+}).omit({ id: true, createdAt: true, archivedAt: true });
+export const insertIncomeLimitVersionSchema = createInsertSchema(incomeLimitVersions, {
+  effectiveStart: z.coerce.date(),
+  effectiveEnd: z.coerce.date().nullable().optional(),
+}).omit({ id: true, createdAt: true, status: true, publishedAt: true });
+export const insertIncomeLimitSchema = createInsertSchema(incomeLimits, {
+  householdSize: z.number().int().min(1, "Household size must be at least 1"),
+  limitCents: z.number().int().min(0, "Limit cannot be negative"),
+}).omit({ id: true, createdAt: true });
+export const insertAmiTableSchema = createInsertSchema(amiTables).omit({ id: true, createdAt: true });
+export const insertAmiAreaSchema = createInsertSchema(amiAreas).omit({ id: true, createdAt: true });
+export const insertAmiIncomeSchema = createInsertSchema(amiIncomes).omit({ id: true });
 export const insertApplicationSchema = createInsertSchema(applications).omit({
   id: true,
   createdAt: true,
@@ -157,37 +371,170 @@ export const insertApplicationSchema = createInsertSchema(applications).omit({
   applicantToken: true, // Generated by server
   systemResult: true,   // Computed by server
   computedLimitCents: true, // Computed by server
+  limitExtrapolated: true, // Computed by server
+  incomeTier: true,     // Computed by server
+  eligibilityPath: true, // Computed by server
+  limitSnapshot: true,  // Computed by server
+  eligibilityTrace: true, // Computed by server
   ruleVersion: true,    // Computed by server
   submittedAt: true     // Set by server on submit
 });
+export const insertIncomeLineItemSchema = createInsertSchema(incomeLineItems, {
+  memberName: z.string().min(1, "Member name required"),
+  amountCents: z.number().int().min(0, "Amount cannot be negative"),
+}).omit({ id: true, createdAt: true });
 export const insertDocumentSchema = createInsertSchema(documents).omit({ id: true, uploadedAt: true });
 export const insertActivityEventSchema = createInsertSchema(activityEvents).omit({ id: true, createdAt: true });
 
+export const incomeTierSchema = z.object({
+  name: z.string().min(1, "Tier name required"),
+  percentOfLimit: z.number().int().min(1),
+});
+
+// Values recorded in an eligibility trace. Keys ending in "Cents" are money.
+export const traceValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(z.string())]);
+
+export const ruleResultSchema = z.object({
+  rule: z.string(),
+  outcome: z.enum(ruleOutcomes),
+  reasonCode: z.string(),
+  inputs: z.record(traceValueSchema),    // What the applicant provided
+  threshold: z.record(traceValueSchema), // What the program requires
+});
+
+// Every rule checked for one evaluation, persisted on the application at submission
+export const eligibilityTraceSchema = z.object({
+  evaluatedAt: z.string(),
+  systemResult: z.enum(systemResults),
+  eligibilityPath: z.enum(eligibilityPaths).nullable(),
+  rules: z.array(ruleResultSchema),
+});
+
+// The exact limit an application was evaluated against, frozen at submission
+// so later edits to limits or program dates don't change the record.
+export const limitSnapshotSchema = z.object({
+  basis: z.enum(limitBases),
+  householdSize: z.number(),
+  limitCents: z.number(),
+  extrapolated: z.boolean(),
+  // Fixed basis: the limit row used (the largest row when extrapolated) and its version
+  incomeLimitId: z.number().nullable(),
+  versionId: z.number().nullable(),
+  versionLabel: z.string().nullable(),
+  versionEffectiveStart: z.string().nullable(),
+  versionEffectiveEnd: z.string().nullable(),
+  // AMI basis
+  amiDatasetVersion: z.string().nullable(),
+  amiAreaName: z.string().nullable(),
+  amiPercent: z.number().nullable(),
+  programEffectiveStart: z.string(),
+  programEffectiveEnd: z.string().nullable(),
+});
+
+// One application whose stored calculation differs from a fresh evaluation
+export const reevaluationChangeSchema = z.object({
+  applicationId: z.number(),
+  applicantName: z.string(),
+  status: z.enum(applicationStatuses),
+  previousResult: z.enum(systemResults).nullable(),
+  newResult: z.enum(systemResults),
+  previousLimitCents: z.number().nullable(),
+  newLimitCents: z.number().nullable(),
+  previousTier: z.string().nullable(),
+  newTier: z.string().nullable(),
+});
+
+// A missing or invalid answer that blocks submission, with the wizard step that asks for it
+export const submissionIssueSchema = z.object({
+  field: z.string(),
+  step: z.enum(wizardSteps),
+  message: z.string(),
+});
+
+// Approvals and budget used against a program's funding caps. Null caps are unlimited.
+export const programCapacitySchema = z.object({
+  programId: z.number(),
+  approvedCount: z.number(),
+  pendingCount: z.number(), // Eligible applications awaiting a decision
+  waitlistedCount: z.number(),
+  maxApprovals: z.number().nullable(),
+  remainingApprovals: z.number().nullable(),
+  budgetCents: z.number().nullable(),
+  committedCents: z.number(),
+  remainingBudgetCents: z.number().nullable(),
+  exhausted: z.boolean(),
+});
+
 // Program form schema for frontend (with parsed JSON arrays)
 export const programFormSchema = z.object({
   name: z.string().min(1, "Program name required"),
   regionLabel: z.string().min(1, "Region required"),
+  slug: programSlugSchema.or(z.literal("")).optional(), // Blank picks one from the name
+  description: z.string().optional(),
   effectiveStart: z.coerce.date(),
   effectiveEnd: z.coerce.date().optional().nullable(),
+  submissionGraceDays: z.coerce.number().int().min(0, "Cannot be negative").default(0),
   residenceTypes: z.array(z.enum(residenceTypeOptions)).default([]),
   propertyTypes: z.array(z.enum(propertyTypeOptions)).default([]),
   documentRequirements: z.array(z.string()).default([]),
   eligibilityCriteria: z.string().optional(),
+  criteria: eligibilityCriteriaSchema.default([]),
   allowedZipCodes: z.array(z.string().regex(/^\d{5}$/, "Must be 5-digit ZIP")).default([]),
+  serviceAreas: serviceAreasSchema.default([]),
+  categoricalPrograms: z.array(z.enum(categoricalProgramOptions)).default([]),
+});
+
+// AMI area form schema: an area with its ZIP codes and median income per household size
+export const amiAreaFormSchema = z.object({
+  areaName: z.string().min(1, "Area name required"),
+  zipCodes: z.array(z.string().regex(/^\d{5}$/, "Must be 5-digit ZIP")).default([]),
+  incomes: z.array(z.object({
+    householdSize: z.number().int().min(1),
+    medianIncomeCents: z.number().int().min(0),
+  })).min(1, "At least one median income required"),
 });
 
 // --- TYPES ---
 
 export type User = typeof users.$inferSelect;
 export type Program = typeof programs.$inferSelect;
+export type IncomeLimitVersion = typeof incomeLimitVersions.$inferSelect;
 export type IncomeLimit = typeof incomeLimits.$inferSelect;
+export type AmiTable = typeof amiTables.$inferSelect;
+export type AmiArea = typeof amiAreas.$inferSelect;
+export type AmiIncome = typeof amiIncomes.$inferSelect;
 export type Application = typeof applications.$inferSelect;
+export type IncomeLineItem = typeof incomeLineItems.$inferSelect;
 export type Document = typeof documents.$inferSelect;
 export type ActivityEvent = typeof activityEvents.$inferSelect;
+export type IncomeTier = z.infer<typeof incomeTierSchema>;
+export type LimitSnapshot = z.infer<typeof limitSnapshotSchema>;
+export type CriterionType = typeof criterionTypes[number];
+export type EligibilityCriterion = z.infer<typeof eligibilityCriterionSchema>;
+export type ServiceArea = z.infer<typeof serviceAreaSchema>;
+export type ServiceAreaCounty = z.infer<typeof serviceAreaCountySchema>;
+export type TraceValue = z.infer<typeof traceValueSchema>;
+export type RuleResult = z.infer<typeof ruleResultSchema>;
+export type EligibilityTrace = z.infer<typeof eligibilityTraceSchema>;
+export type ReevaluationChange = z.infer<typeof reevaluationChangeSchema>;
+export type SubmissionIssue = z.infer<typeof submissionIssueSchema>;
+export type CustomFieldType = typeof customFieldTypes[number];
+export type CustomField = z.infer<typeof customFieldSchema>;
+export type CustomFieldValue = z.infer<typeof customFieldValueSchema>;
+export type ProgramCapacity = z.infer<typeof programCapacitySchema>;
+export type ApplicationStatus = typeof applicationStatuses[number];
+export type SystemResult = typeof systemResults[number];
+export type ExtrapolationPolicy = typeof extrapolationPolicies[number];
+export type LimitBasis = typeof limitBases[number];
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertProgram = z.infer<typeof insertProgramSchema>;
+export type InsertIncomeLimitVersion = z.infer<typeof insertIncomeLimitVersionSchema>;
 export type InsertIncomeLimit = z.infer<typeof insertIncomeLimitSchema>;
+export type InsertAmiTable = z.infer<typeof insertAmiTableSchema>;
+export type InsertAmiArea = z.infer<typeof insertAmiAreaSchema>;
+export type InsertAmiIncome = z.infer<typeof insertAmiIncomeSchema>;
 export type InsertApplication = z.infer<typeof insertApplicationSchema>;
+export type InsertIncomeLineItem = z.infer<typeof insertIncomeLineItemSchema>;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type InsertActivityEvent = z.infer<typeof insertActivityEventSchema>;
@@ -0,0 +1,76 @@
+import { serviceAreasSchema, type ServiceArea } from "./schema";
+
+// Where a ZIP code sits. County is null when only the state is known.
+export interface ZipLocation {
+  state: string;
+  county: string | null;
+}
+
+export type ServiceAreaMatch = "Unrestricted" | "Allowed" | "NotAllowed" | "Unknown";
+
+export function parseServiceAreas(value: string | null | undefined): ServiceArea[] {
+  try {
+    const parsed = serviceAreasSchema.safeParse(JSON.parse(value || "[]"));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+export function describeServiceArea(area: ServiceArea): string {
+  return area.type === "State" ? area.state : `${area.county} County, ${area.state}`;
+}
+
+export function serviceAreaKey(area: ServiceArea): string {
+  return area.type === "State" ? area.state : `${area.state}:${area.county.toLowerCase()}`;
+}
+
+// A ZIP passes when it's listed outright or falls in a served state or county.
+// "Unknown" means a county area might cover it but the ZIP's county can't be resolved.
+export function matchServiceArea(
+  zip: string,
+  location: ZipLocation | null,
+  allowedZipCodes: string[],
+  areas: ServiceArea[]
+): ServiceAreaMatch {
+  if (allowedZipCodes.length === 0 && areas.length === 0) return "Unrestricted";
+  if (allowedZipCodes.includes(zip)) return "Allowed";
+  if (!location) return areas.length > 0 ? "Unknown" : "NotAllowed";
+
+  let unresolved = false;
+  for (const area of areas) {
+    if (area.state !== location.state) continue;
+    if (area.type === "State") return "Allowed";
+    if (location.county === null) unresolved = true;
+    else if (area.county.toLowerCase() === location.county.toLowerCase()) return "Allowed";
+  }
+  return unresolved ? "Unknown" : "NotAllowed";
+}
+
+export interface ZipImportResult {
+  added: string[];
+  duplicates: string[];
+  invalid: string[];
+}
+
+// Reads ZIPs from pasted text or a CSV export. Cells without digits (headers,
+// city names) are skipped; ZIP+4 codes are cut to five digits.
+export function parseZipList(text: string, existing: string[]): ZipImportResult {
+  const seen = new Set(existing);
+  const result: ZipImportResult = { added: [], duplicates: [], invalid: [] };
+
+  for (const raw of text.split(/[\s,;]+/)) {
+    const cell = raw.replace(/^["']+|["']+$/g, "");
+    if (!/\d/.test(cell)) continue;
+    const match = /^(\d{5})(-\d{4})?$/.exec(cell);
+    if (!match) {
+      result.invalid.push(cell);
+    } else if (seen.has(match[1])) {
+      result.duplicates.push(match[1]);
+    } else {
+      seen.add(match[1]);
+      result.added.push(match[1]);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,9 @@
+// "Winter Heating Aid 2025" -> "winter-heating-aid-2025"
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[̀-ͯ]/g, "") // Accents left over from NFKD
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}